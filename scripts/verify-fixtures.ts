@@ -0,0 +1,124 @@
+/**
+ * Replays recorded Voyager payloads from fixtures/voyager through the
+ * response parsers and compares the result with the checked-in
+ * `<name>.expected.json` next to each payload.
+ *
+ *   npm run fixtures              verify every fixture
+ *   npm run fixtures -- --update  rewrite expected output (review the diff!)
+ *
+ * Payload files:
+ *   sections/<name>.json       { description, sectionType, response }
+ *   basic-profile/<name>.json  { description, response }
+ *   paging/<name>.json         { description, response }
+ *   recommendations/<name>.json { description, direction, response }
+ *   upstream-errors/<name>.json { description, what, result }
+ *
+ * When LinkedIn changes its payloads, record a new response (e.g. with the
+ * replay transport in record mode), strip personal data, drop it in here
+ * and run the check to see exactly which fields moved.
+ */
+import fs from 'fs';
+import path from 'path';
+import {
+  extractBasicInfo,
+  extractComponentData,
+  extractPaging,
+  extractRecommendations,
+} from '../src/voyager-parser';
+import { upstreamError } from '../src/errors';
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'voyager');
+
+// Fixed clock so "Present" durations in expected output stay stable
+const FIXTURE_NOW = new Date('2026-04-15T00:00:00Z');
+
+const update = process.argv.includes('--update');
+
+const parsers: Record<string, (fixture: any) => unknown> = {
+  sections: (fixture) =>
+    extractComponentData(fixture.response, fixture.sectionType, FIXTURE_NOW),
+  'basic-profile': (fixture) => extractBasicInfo(fixture.response),
+  paging: (fixture) => extractPaging(fixture.response),
+  recommendations: (fixture) =>
+    extractRecommendations(fixture.response, fixture.direction),
+  'upstream-errors': (fixture) => {
+    const error = upstreamError(fixture.result, fixture.what);
+    return {
+      code: error.code,
+      message: error.message,
+      retryable: error.retryable,
+      retryAfterSeconds: error.retryAfterSeconds,
+    };
+  },
+};
+
+function diff(expected: any, actual: any, at: string, out: string[]): void {
+  if (JSON.stringify(expected) === JSON.stringify(actual)) return;
+
+  const bothObjects =
+    expected !== null &&
+    actual !== null &&
+    typeof expected === 'object' &&
+    typeof actual === 'object' &&
+    Array.isArray(expected) === Array.isArray(actual);
+
+  if (!bothObjects) {
+    out.push(
+      `${at || '(root)'}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`
+    );
+    return;
+  }
+
+  const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+  for (const key of keys) {
+    const child = Array.isArray(expected) ? `${at}[${key}]` : `${at}.${key}`;
+    diff(expected[key], actual[key], child, out);
+  }
+}
+
+let checked = 0;
+let failed = 0;
+
+for (const [kind, parse] of Object.entries(parsers)) {
+  const dir = path.join(FIXTURES_DIR, kind);
+  const files = fs
+    .readdirSync(dir)
+    .filter((f) => f.endsWith('.json') && !f.endsWith('.expected.json'))
+    .sort();
+
+  for (const file of files) {
+    const name = `${kind}/${file.replace(/\.json$/, '')}`;
+    const fixture = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8'));
+    const expectedPath = path.join(dir, file.replace(/\.json$/, '.expected.json'));
+    const actual = parse(fixture);
+    checked++;
+
+    if (update) {
+      fs.writeFileSync(expectedPath, JSON.stringify(actual, null, 2) + '\n');
+      console.log(`✎ ${name}`);
+      continue;
+    }
+
+    if (!fs.existsSync(expectedPath)) {
+      failed++;
+      console.log(`✗ ${name}: no ${path.basename(expectedPath)} (run with --update)`);
+      continue;
+    }
+
+    const differences: string[] = [];
+    diff(JSON.parse(fs.readFileSync(expectedPath, 'utf-8')), actual, '', differences);
+
+    if (differences.length === 0) {
+      console.log(`✓ ${name}`);
+    } else {
+      failed++;
+      console.log(`✗ ${name} — ${fixture.description || ''}`);
+      for (const d of differences) console.log(`    ${d}`);
+    }
+  }
+}
+
+console.log(
+  `\n${checked} fixtures, ${failed} failed${update ? ' (expected output rewritten)' : ''}`
+);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,210 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ApiKeyInfo, ApiKeyRecord, ApiScope } from './types';
+
+export const API_SCOPES: ApiScope[] = [
+  'profile:read',
+  'section:read',
+  'metrics:read',
+  'admin',
+];
+
+const KEY_PREFIX = 'lk_';
+const HOUR_MS = 3_600_000;
+
+/**
+ * File-backed store of client API keys (a single JSON file, rewritten on
+ * every change). Keys are stored as sha256 hashes; the plain key is only
+ * returned once, by `create`.
+ *
+ * A `legacyToken` (the old static API_TOKEN) is accepted as an extra
+ * unlimited key with every scope, so existing deployments keep working
+ * until their clients move to issued keys. It cannot be revoked here.
+ */
+export class ApiKeyStore {
+  private file: string;
+  private keys = new Map<string, ApiKeyRecord>();
+  private legacy: ApiKeyRecord | null = null;
+  private usage = new Map<string, number[]>();
+
+  constructor(options?: { file?: string; legacyToken?: string }) {
+    this.file = options?.file || path.join(process.cwd(), '.api-keys.json');
+
+    if (options?.legacyToken) {
+      this.legacy = {
+        id: 'legacy',
+        name: 'API_TOKEN',
+        prefix: options.legacyToken.slice(0, 6),
+        keyHash: hashKey(options.legacyToken),
+        scopes: [...API_SCOPES],
+        hourlyQuota: null,
+        allowedOrigins: ['*'],
+        createdAt: new Date(0).toISOString(),
+        revokedAt: null,
+      };
+    }
+
+    this.load();
+  }
+
+  /** Issue a new key. Returns the stored record and the plain key. */
+  create(input: {
+    name: string;
+    scopes: ApiScope[];
+    hourlyQuota?: number | null;
+    allowedOrigins?: string[];
+  }): { key: string; info: ApiKeyInfo } {
+    const key = KEY_PREFIX + crypto.randomBytes(24).toString('base64url');
+    const record: ApiKeyRecord = {
+      id: crypto.randomUUID(),
+      name: input.name,
+      prefix: key.slice(0, KEY_PREFIX.length + 6),
+      keyHash: hashKey(key),
+      scopes: input.scopes,
+      hourlyQuota: input.hourlyQuota ?? null,
+      allowedOrigins: input.allowedOrigins ?? [],
+      createdAt: new Date().toISOString(),
+      revokedAt: null,
+    };
+
+    this.keys.set(record.id, record);
+    this.save();
+    return { key, info: toInfo(record) };
+  }
+
+  /** Every issued key, revoked ones included, oldest first. */
+  list(): ApiKeyInfo[] {
+    return [...this.keys.values()]
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(toInfo);
+  }
+
+  /** Returns null when no issued key has that id. Revoking twice is a no-op. */
+  revoke(id: string): ApiKeyInfo | null {
+    const record = this.keys.get(id);
+    if (!record) return null;
+
+    if (!record.revokedAt) {
+      record.revokedAt = new Date().toISOString();
+      this.usage.delete(id);
+      this.save();
+    }
+    return toInfo(record);
+  }
+
+  /**
+   * The active key matching `presented`, or null. Every candidate is
+   * compared, in constant time, so the response time does not reveal how
+   * many keys exist or which one nearly matched.
+   */
+  verify(presented: string): ApiKeyRecord | null {
+    const presentedHash = Buffer.from(hashKey(presented), 'hex');
+    let match: ApiKeyRecord | null = null;
+
+    for (const record of this.candidates()) {
+      const storedHash = Buffer.from(record.keyHash, 'hex');
+      if (
+        storedHash.length === presentedHash.length &&
+        crypto.timingSafeEqual(storedHash, presentedHash) &&
+        !record.revokedAt
+      ) {
+        match = record;
+      }
+    }
+
+    return match;
+  }
+
+  /** True when some active key allows browser calls from `origin`. */
+  isOriginAllowed(origin: string): boolean {
+    return this.candidates().some(
+      (record) => !record.revokedAt && originAllowed(record, origin)
+    );
+  }
+
+  /**
+   * Count one request against the key's hourly quota. Returns whether it
+   * is allowed, plus what is left and when the oldest counted request ages
+   * out of the window.
+   */
+  consume(record: ApiKeyRecord): {
+    allowed: boolean;
+    remaining: number | null;
+    resetAt: number | null;
+  } {
+    if (record.hourlyQuota === null) {
+      return { allowed: true, remaining: null, resetAt: null };
+    }
+
+    const cutoff = Date.now() - HOUR_MS;
+    const timestamps = (this.usage.get(record.id) || []).filter(
+      (t) => t > cutoff
+    );
+
+    const allowed = timestamps.length < record.hourlyQuota;
+    if (allowed) timestamps.push(Date.now());
+    this.usage.set(record.id, timestamps);
+
+    return {
+      allowed,
+      remaining: Math.max(0, record.hourlyQuota - timestamps.length),
+      resetAt: timestamps.length > 0 ? timestamps[0] + HOUR_MS : null,
+    };
+  }
+
+  activeCount(): number {
+    return [...this.keys.values()].filter((record) => !record.revokedAt).length;
+  }
+
+  hasLegacyToken(): boolean {
+    return this.legacy !== null;
+  }
+
+  private candidates(): ApiKeyRecord[] {
+    const records = [...this.keys.values()];
+    return this.legacy ? [this.legacy, ...records] : records;
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.file)) return;
+
+    const records: ApiKeyRecord[] = JSON.parse(
+      fs.readFileSync(this.file, 'utf-8')
+    );
+    for (const record of records) this.keys.set(record.id, record);
+  }
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+
+    // Write-then-rename so a crash never leaves a half-written key file behind
+    fs.writeFileSync(
+      `${this.file}.tmp`,
+      JSON.stringify([...this.keys.values()], null, 2),
+      { mode: 0o600 }
+    );
+    fs.renameSync(`${this.file}.tmp`, this.file);
+  }
+}
+
+/** Whether `record` grants `scope`; `admin` grants every scope. */
+export function hasScope(record: ApiKeyRecord, scope: ApiScope): boolean {
+  return record.scopes.includes(scope) || record.scopes.includes('admin');
+}
+
+export function originAllowed(record: ApiKeyRecord, origin: string): boolean {
+  return (
+    record.allowedOrigins.includes('*') ||
+    record.allowedOrigins.includes(origin)
+  );
+}
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function toInfo(record: ApiKeyRecord): ApiKeyInfo {
+  const { keyHash: _keyHash, ...info } = record;
+  return info;
+}
@@ -0,0 +1,1022 @@
+import fs from 'fs';
+import path from 'path';
+import Handlebars from 'handlebars';
+import { API_SCOPES } from './api-key-store';
+import { COOKIE_EXPORT_FORMATS } from './cookie-import';
+import { REQUIRED_COOKIES } from './credential-stores';
+import { ServiceErrorCode } from './errors';
+import { ALL_SECTIONS, DEFAULT_SECTIONS } from './linkedin.service';
+import { ApiScope, SectionType } from './types';
+import profileDataSchema from './schema/profile-data.schema.json';
+
+/**
+ * The API surface in one place: routes, their parameters and the error
+ * codes they return. The OpenAPI document, the /docs page and request
+ * validation are all derived from it, so they cannot drift apart.
+ */
+
+export const VALID_SECTIONS: SectionType[] = ALL_SECTIONS.map(([type]) => type);
+
+export const PROFILE_FORMATS = ['json', 'jsonresume'];
+export const RESUME_FORMATS = ['html', 'md', 'pdf'];
+export const BATCH_RESULT_FORMATS = ['ndjson', 'csv'];
+
+export const MAX_BATCH_SIZE = 100;
+export const MAX_USAGE_HOURS = 24 * 35;
+export const MAX_USAGE_DAYS = 35;
+
+/** What a vanity name (or a batch entry, once decoded) must look like. */
+export const VANITY_NAME_PATTERN = /^[\w\-%.]{3,100}$/;
+export const VANITY_NAME_HINT =
+  '3 to 100 letters, digits, "-", "_", "." or "%"';
+
+// ── Error codes ───────────────────────────────────────────────────────
+
+export interface ErrorCodeSpec {
+  status: number;
+  description: string;
+}
+
+/** What the service layer's typed errors map to. */
+const SERVICE_ERRORS: Record<ServiceErrorCode, ErrorCodeSpec> = {
+  PROFILE_NOT_FOUND: {
+    status: 404,
+    description: 'LinkedIn has no member with that vanity name.',
+  },
+  CREDENTIALS_MISSING: {
+    status: 500,
+    description: 'The server has no LinkedIn credentials.',
+  },
+  SESSION_EXPIRED: {
+    status: 401,
+    description: "LinkedIn no longer accepts the server's session.",
+  },
+  VERIFICATION_REQUIRED: {
+    status: 503,
+    description: 'LinkedIn wants a human to clear a login challenge.',
+  },
+  RATE_LIMITED: {
+    status: 429,
+    description: 'LinkedIn is rate limiting the session; see Retry-After.',
+  },
+  UPSTREAM_FAILURE: {
+    status: 502,
+    description: 'LinkedIn failed in some other way.',
+  },
+  TIMEOUT: { status: 504, description: 'LinkedIn did not answer in time.' },
+};
+
+/** Every `error.code` the API returns, with its HTTP status. */
+export const ERROR_CODES: Record<string, ErrorCodeSpec> = {
+  UNAUTHORIZED: { status: 401, description: 'No API key was presented.' },
+  FORBIDDEN: { status: 403, description: 'The API key is unknown or revoked.' },
+  INSUFFICIENT_SCOPE: {
+    status: 403,
+    description: 'The API key lacks the scope the route needs.',
+  },
+  ORIGIN_NOT_ALLOWED: {
+    status: 403,
+    description: 'The API key may not be used from this browser origin.',
+  },
+  QUOTA_EXCEEDED: {
+    status: 429,
+    description: "The API key's hourly quota is used up; see Retry-After.",
+  },
+  INVALID_JSON: {
+    status: 400,
+    description: 'The request body is not valid JSON.',
+  },
+  INVALID_VANITY_NAME: {
+    status: 400,
+    description: 'The vanity name is missing or malformed.',
+  },
+  INVALID_SECTION_TYPE: { status: 400, description: 'Unknown section type.' },
+  INVALID_SECTIONS: {
+    status: 400,
+    description: 'sections names an unknown section.',
+  },
+  INVALID_BASIC: { status: 400, description: 'basic is not true or false.' },
+  INVALID_FORMAT: { status: 400, description: 'Unknown format.' },
+  INVALID_MAX_AGE: {
+    status: 400,
+    description: 'maxAge is not a non-negative integer.',
+  },
+  INVALID_USAGE_WINDOW: {
+    status: 400,
+    description: 'hours or days is out of range.',
+  },
+  UNKNOWN_TEMPLATE: {
+    status: 400,
+    description: 'No resume template with that name and format.',
+  },
+  INVALID_CALLBACK_URL: {
+    status: 400,
+    description:
+      'callbackUrl is not an http(s) URL to a public or allowed host.',
+  },
+  CALLBACKS_DISABLED: {
+    status: 400,
+    description: 'Callbacks need WEBHOOK_SECRET on the server.',
+  },
+  INVALID_BATCH: {
+    status: 400,
+    description: 'The batch is empty, too large or has no valid profile.',
+  },
+  INVALID_KEY_REQUEST: {
+    status: 400,
+    description: 'The key creation body is invalid.',
+  },
+  INVALID_CREDENTIALS: {
+    status: 400,
+    description: 'The cookie set is malformed or lacks a required cookie.',
+  },
+  INVALID_COOKIE_EXPORT: {
+    status: 400,
+    description: 'The body is not a cookie export in a known format.',
+  },
+  CREDENTIALS_REJECTED: {
+    status: 422,
+    description: 'LinkedIn rejected the new cookies; the old session stays.',
+  },
+  NOT_FOUND: { status: 404, description: 'No such route.' },
+  SNAPSHOT_NOT_FOUND: {
+    status: 404,
+    description: 'No such snapshot, or too few to compare.',
+  },
+  JOB_NOT_FOUND: { status: 404, description: 'No job with that id.' },
+  BATCH_NOT_FOUND: { status: 404, description: 'No batch with that id.' },
+  KEY_NOT_FOUND: { status: 404, description: 'No API key with that id.' },
+  PAYLOAD_TOO_LARGE: {
+    status: 413,
+    description: 'The request body is over the size limit.',
+  },
+  PDF_UNAVAILABLE: {
+    status: 501,
+    description: 'The configured transport cannot print PDFs.',
+  },
+  SESSION_SWAP_UNAVAILABLE: {
+    status: 501,
+    description: 'The configured transport cannot swap sessions at runtime.',
+  },
+  SESSION_NOT_READY: {
+    status: 503,
+    description: 'The LinkedIn session is down, expired or failing.',
+  },
+  ...SERVICE_ERRORS,
+  INTERNAL_ERROR: { status: 500, description: 'Unexpected server error.' },
+};
+
+/** Returned by every authenticated route. */
+const AUTH_ERRORS = [
+  'UNAUTHORIZED',
+  'FORBIDDEN',
+  'INSUFFICIENT_SCOPE',
+  'ORIGIN_NOT_ALLOWED',
+  'QUOTA_EXCEEDED',
+];
+
+/** Returned by every route that may reach LinkedIn. */
+const UPSTREAM_ERRORS = Object.keys(SERVICE_ERRORS);
+
+// ── Parameters ────────────────────────────────────────────────────────
+
+export type ParameterSchema =
+  | { type: 'string'; enum?: string[]; pattern?: string; default?: string }
+  | { type: 'integer'; minimum?: number; maximum?: number; default?: number }
+  // A comma-separated list, e.g. `?sections=skills,languages`
+  | { type: 'array'; items: { type: 'string'; enum: string[] } };
+
+export interface ParameterSpec {
+  name: string;
+  in: 'path' | 'query';
+  description: string;
+  required?: boolean;
+  schema: ParameterSchema;
+  /** `error.code` for a value that does not match `schema`. */
+  errorCode?: string;
+  /** `error.details` for such a value; defaults to a summary of `schema`. */
+  hint?: string;
+}
+
+const vanityNameParam: ParameterSpec = {
+  name: 'vanityName',
+  in: 'path',
+  description: 'Public profile name, as in linkedin.com/in/<vanityName>.',
+  required: true,
+  schema: { type: 'string', pattern: VANITY_NAME_PATTERN.source },
+  errorCode: 'INVALID_VANITY_NAME',
+  hint: VANITY_NAME_HINT,
+};
+
+const sectionTypeParam: ParameterSpec = {
+  name: 'sectionType',
+  in: 'path',
+  description: 'Section to fetch.',
+  required: true,
+  schema: { type: 'string', enum: VALID_SECTIONS },
+  errorCode: 'INVALID_SECTION_TYPE',
+};
+
+const sectionsParam: ParameterSpec = {
+  name: 'sections',
+  in: 'query',
+  description: `Sections to fetch. Default: ${DEFAULT_SECTIONS.join(', ')}.`,
+  schema: { type: 'array', items: { type: 'string', enum: VALID_SECTIONS } },
+  errorCode: 'INVALID_SECTIONS',
+  hint: `Comma-separated list of at least one of: ${VALID_SECTIONS.join(', ')}`,
+};
+
+const basicParam: ParameterSpec = {
+  name: 'basic',
+  in: 'query',
+  description: 'Whether to fetch the basic info (name, headline, location).',
+  schema: { type: 'string', enum: ['true', 'false'], default: 'true' },
+  errorCode: 'INVALID_BASIC',
+};
+
+const maxAgeParam: ParameterSpec = {
+  name: 'maxAge',
+  in: 'query',
+  description:
+    'Oldest cached copy to accept, in seconds; 0 forces a live fetch. ' +
+    'Falls back to the Cache-Control request header.',
+  schema: { type: 'integer', minimum: 0 },
+  errorCode: 'INVALID_MAX_AGE',
+  hint: 'maxAge must be a non-negative integer number of seconds',
+};
+
+function formatParam(formats: string[], fallback: string): ParameterSpec {
+  return {
+    name: 'format',
+    in: 'query',
+    description: 'Output format.',
+    schema: { type: 'string', enum: formats, default: fallback },
+    errorCode: 'INVALID_FORMAT',
+  };
+}
+
+function idParam(what: string): ParameterSpec {
+  return {
+    name: 'id',
+    in: 'path',
+    description: `${what} id.`,
+    required: true,
+    schema: { type: 'string' },
+  };
+}
+
+// ── Operations ────────────────────────────────────────────────────────
+
+export interface OperationSpec {
+  operationId: string;
+  method: 'get' | 'post' | 'put' | 'delete';
+  /** Express-style path (`:param`). */
+  path: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  /** Scope the API key needs; 'any' for any key, null for no key at all. */
+  scope: ApiScope | 'any' | null;
+  parameters?: ParameterSpec[];
+  requestBody?: object;
+  /** Defaults to application/json. */
+  requestContentType?: string;
+  response: {
+    status: number;
+    description: string;
+    /** Defaults to the JSON success envelope around `schema`. */
+    contentType?: string;
+    schema?: object;
+  };
+  /** Error codes beyond the authentication ones. */
+  errors?: string[];
+}
+
+const PROFILE_DATA = { $ref: '#/components/schemas/ProfileData' };
+const OBJECT = { type: 'object' };
+
+export const OPERATIONS: OperationSpec[] = [
+  {
+    operationId: 'getHealth',
+    method: 'get',
+    path: '/health',
+    tag: 'Service',
+    summary: 'Service and session status',
+    description:
+      'Always 200 while the process is up; `status` is `degraded` when ' +
+      'the LinkedIn session is not ready.',
+    scope: null,
+    response: {
+      status: 200,
+      description: 'The service is up.',
+      schema: OBJECT,
+    },
+  },
+  {
+    operationId: 'getLiveness',
+    method: 'get',
+    path: '/health/live',
+    tag: 'Service',
+    summary: 'Liveness probe',
+    description: 'Restarting does not fix a bad session, so this ignores it.',
+    scope: null,
+    response: {
+      status: 200,
+      description: 'The process is serving requests.',
+      schema: OBJECT,
+    },
+  },
+  {
+    operationId: 'getReadiness',
+    method: 'get',
+    path: '/health/ready',
+    tag: 'Service',
+    summary: 'Readiness probe',
+    description:
+      'Not ready while the transport is down, LinkedIn has rejected the ' +
+      'session, upstream calls keep failing or the CSRF token is past ' +
+      'SESSION_MAX_TOKEN_AGE_HOURS. A failing or rejected session is ' +
+      're-probed against LinkedIn here, at most every ' +
+      'SESSION_REPROBE_SECONDS and within the hourly request budget. The ' +
+      'session status is returned either way.',
+    scope: null,
+    response: {
+      status: 200,
+      description: 'The session can serve profile requests.',
+      schema: OBJECT,
+    },
+    errors: ['SESSION_NOT_READY'],
+  },
+  {
+    operationId: 'getOpenApiDocument',
+    method: 'get',
+    path: '/openapi.json',
+    tag: 'Service',
+    summary: 'This API as an OpenAPI 3 document',
+    scope: null,
+    response: {
+      status: 200,
+      description: 'The OpenAPI document.',
+      contentType: 'application/json',
+    },
+  },
+  {
+    operationId: 'getApiDocs',
+    method: 'get',
+    path: '/docs',
+    tag: 'Service',
+    summary: 'This API as an HTML page',
+    scope: null,
+    response: {
+      status: 200,
+      description: 'The docs.',
+      contentType: 'text/html',
+    },
+  },
+  {
+    operationId: 'getMetrics',
+    method: 'get',
+    path: '/metrics',
+    tag: 'Service',
+    summary: 'Prometheus metrics',
+    scope: 'metrics:read',
+    response: {
+      status: 200,
+      description: 'Prometheus text exposition format.',
+      contentType: 'text/plain',
+    },
+  },
+  {
+    operationId: 'getUsage',
+    method: 'get',
+    path: '/api/v2/usage',
+    tag: 'Service',
+    summary: 'Upstream LinkedIn requests by client',
+    description:
+      'Admin keys see every client (or one, with clientId); ' +
+      'other keys see only their own.',
+    scope: 'any',
+    parameters: [
+      {
+        name: 'hours',
+        in: 'query',
+        description: 'Hourly rows to return.',
+        schema: {
+          type: 'integer',
+          minimum: 1,
+          maximum: MAX_USAGE_HOURS,
+          default: 24,
+        },
+        errorCode: 'INVALID_USAGE_WINDOW',
+      },
+      {
+        name: 'days',
+        in: 'query',
+        description: 'Daily rows to return.',
+        schema: {
+          type: 'integer',
+          minimum: 1,
+          maximum: MAX_USAGE_DAYS,
+          default: 30,
+        },
+        errorCode: 'INVALID_USAGE_WINDOW',
+      },
+      {
+        name: 'clientId',
+        in: 'query',
+        description: 'Only this client (admin keys only).',
+        schema: { type: 'string' },
+      },
+    ],
+    response: {
+      status: 200,
+      description: 'Budget and usage rows.',
+      schema: OBJECT,
+    },
+  },
+  {
+    operationId: 'getProfileSchema',
+    method: 'get',
+    path: '/api/v2/schema',
+    tag: 'Profiles',
+    summary: 'JSON Schema of ProfileData',
+    scope: 'profile:read',
+    response: {
+      status: 200,
+      description: 'Draft-07 JSON Schema.',
+      contentType: 'application/schema+json',
+    },
+  },
+  {
+    operationId: 'getProfile',
+    method: 'get',
+    path: '/api/v2/profile/:vanityName',
+    tag: 'Profiles',
+    summary: 'Fetch a profile',
+    description:
+      'Served from the cache when fresh enough. ' +
+      'Supports ETag / Last-Modified revalidation.',
+    scope: 'profile:read',
+    parameters: [
+      vanityNameParam,
+      formatParam(PROFILE_FORMATS, 'json'),
+      sectionsParam,
+      basicParam,
+      maxAgeParam,
+    ],
+    response: {
+      status: 200,
+      description: 'The profile.',
+      schema: PROFILE_DATA,
+    },
+    errors: UPSTREAM_ERRORS,
+  },
+  {
+    operationId: 'streamProfile',
+    method: 'get',
+    path: '/api/v2/profile/:vanityName/stream',
+    tag: 'Profiles',
+    summary: 'Fetch a profile as Server-Sent Events',
+    description:
+      'Events: basicInfo, section (one per section), notice, complete and error.',
+    scope: 'profile:read',
+    parameters: [vanityNameParam, sectionsParam, basicParam, maxAgeParam],
+    response: {
+      status: 200,
+      description: 'An event stream.',
+      contentType: 'text/event-stream',
+    },
+  },
+  {
+    operationId: 'getSection',
+    method: 'get',
+    path: '/api/v2/profile/:vanityName/section/:sectionType',
+    tag: 'Profiles',
+    summary: 'Fetch one section of a profile',
+    description:
+      '`count` is the number of items. `totalCount` and `returnedCount` ' +
+      'count top-level entries, so a company with several roles is one ' +
+      'entry but several items; the list was truncated when ' +
+      '`returnedCount < totalCount`.',
+    scope: 'section:read',
+    parameters: [vanityNameParam, sectionTypeParam, maxAgeParam],
+    response: {
+      status: 200,
+      description: 'The section items and paging.',
+      schema: OBJECT,
+    },
+    errors: UPSTREAM_ERRORS,
+  },
+  {
+    operationId: 'getProfileHistory',
+    method: 'get',
+    path: '/api/v2/profile/:vanityName/history',
+    tag: 'History',
+    summary: 'List stored snapshots of a profile',
+    scope: 'profile:read',
+    parameters: [vanityNameParam],
+    response: {
+      status: 200,
+      description: 'Snapshots, oldest first.',
+      schema: OBJECT,
+    },
+  },
+  {
+    operationId: 'diffProfile',
+    method: 'get',
+    path: '/api/v2/profile/:vanityName/diff',
+    tag: 'History',
+    summary: 'Compare two snapshots of a profile',
+    description:
+      'to defaults to the latest snapshot and from to the one before it.',
+    scope: 'profile:read',
+    parameters: [
+      vanityNameParam,
+      {
+        name: 'from',
+        in: 'query',
+        description: 'Older snapshot id.',
+        schema: { type: 'string' },
+      },
+      {
+        name: 'to',
+        in: 'query',
+        description: 'Newer snapshot id.',
+        schema: { type: 'string' },
+      },
+    ],
+    response: { status: 200, description: 'What changed.', schema: OBJECT },
+    errors: ['SNAPSHOT_NOT_FOUND'],
+  },
+  {
+    operationId: 'listResumeTemplates',
+    method: 'get',
+    path: '/api/v2/resume/templates',
+    tag: 'Resumes',
+    summary: 'List resume templates per format',
+    scope: 'profile:read',
+    response: { status: 200, description: 'Template names.', schema: OBJECT },
+  },
+  {
+    operationId: 'renderResume',
+    method: 'get',
+    path: '/api/v2/profile/:vanityName/resume',
+    tag: 'Resumes',
+    summary: 'Render a profile as a resume',
+    scope: 'profile:read',
+    parameters: [
+      vanityNameParam,
+      formatParam(RESUME_FORMATS, 'html'),
+      {
+        name: 'template',
+        in: 'query',
+        description: 'Template name (see /api/v2/resume/templates).',
+        schema: { type: 'string', default: 'classic' },
+      },
+      maxAgeParam,
+    ],
+    response: {
+      status: 200,
+      description: 'HTML, Markdown or PDF.',
+      contentType: 'text/html',
+    },
+    errors: ['UNKNOWN_TEMPLATE', 'PDF_UNAVAILABLE', ...UPSTREAM_ERRORS],
+  },
+  {
+    operationId: 'createJob',
+    method: 'post',
+    path: '/api/v2/jobs',
+    tag: 'Jobs',
+    summary: 'Queue a profile fetch',
+    description:
+      'The signed callback is only sent to public addresses, or to the ' +
+      'hosts in CALLBACK_ALLOWED_HOSTS when that is set.',
+    scope: 'profile:read',
+    requestBody: {
+      type: 'object',
+      required: ['vanityName'],
+      properties: {
+        vanityName: { type: 'string', pattern: VANITY_NAME_PATTERN.source },
+        callbackUrl: {
+          type: 'string',
+          format: 'uri',
+          description: 'Receives the finished job, signed with WEBHOOK_SECRET.',
+        },
+        maxAge: { type: 'integer', minimum: 0 },
+      },
+    },
+    response: { status: 202, description: 'The queued job.', schema: OBJECT },
+    errors: [
+      'INVALID_JSON',
+      'INVALID_VANITY_NAME',
+      'INVALID_MAX_AGE',
+      'INVALID_CALLBACK_URL',
+      'CALLBACKS_DISABLED',
+    ],
+  },
+  {
+    operationId: 'getJob',
+    method: 'get',
+    path: '/api/v2/jobs/:id',
+    tag: 'Jobs',
+    summary: 'Job status and result',
+    scope: 'profile:read',
+    parameters: [idParam('Job')],
+    response: { status: 200, description: 'The job.', schema: OBJECT },
+    errors: ['JOB_NOT_FOUND'],
+  },
+  {
+    operationId: 'createBatch',
+    method: 'post',
+    path: '/api/v2/profiles/batch',
+    tag: 'Jobs',
+    summary: 'Queue many profile fetches',
+    scope: 'profile:read',
+    requestBody: {
+      type: 'object',
+      required: ['profiles'],
+      properties: {
+        profiles: {
+          type: 'array',
+          minItems: 1,
+          maxItems: MAX_BATCH_SIZE,
+          items: { type: 'string' },
+          description: 'Vanity names or linkedin.com/in/ URLs.',
+        },
+        maxAge: { type: 'integer', minimum: 0 },
+      },
+    },
+    response: { status: 202, description: 'The queued batch.', schema: OBJECT },
+    errors: ['INVALID_JSON', 'INVALID_BATCH', 'INVALID_MAX_AGE'],
+  },
+  {
+    operationId: 'getBatch',
+    method: 'get',
+    path: '/api/v2/profiles/batch/:id',
+    tag: 'Jobs',
+    summary: 'Batch progress',
+    scope: 'profile:read',
+    parameters: [idParam('Batch')],
+    response: { status: 200, description: 'The batch.', schema: OBJECT },
+    errors: ['BATCH_NOT_FOUND'],
+  },
+  {
+    operationId: 'getBatchResults',
+    method: 'get',
+    path: '/api/v2/profiles/batch/:id/results',
+    tag: 'Jobs',
+    summary: 'Batch results as NDJSON or CSV',
+    scope: 'profile:read',
+    parameters: [idParam('Batch'), formatParam(BATCH_RESULT_FORMATS, 'ndjson')],
+    response: {
+      status: 200,
+      description: 'One line per entry (NDJSON) or per profile (CSV).',
+      contentType: 'application/x-ndjson',
+    },
+    errors: ['BATCH_NOT_FOUND'],
+  },
+  {
+    operationId: 'createApiKey',
+    method: 'post',
+    path: '/api/v2/admin/keys',
+    tag: 'Admin',
+    summary: 'Issue an API key',
+    description: 'The plain key is only returned in this response.',
+    scope: 'admin',
+    requestBody: {
+      type: 'object',
+      required: ['name', 'scopes'],
+      properties: {
+        name: { type: 'string', maxLength: 100 },
+        scopes: {
+          type: 'array',
+          minItems: 1,
+          items: { type: 'string', enum: API_SCOPES },
+        },
+        hourlyQuota: { type: ['integer', 'null'], minimum: 1 },
+        allowedOrigins: { type: 'array', items: { type: 'string' } },
+      },
+    },
+    response: { status: 201, description: 'The new key.', schema: OBJECT },
+    errors: ['INVALID_JSON', 'INVALID_KEY_REQUEST'],
+  },
+  {
+    operationId: 'listApiKeys',
+    method: 'get',
+    path: '/api/v2/admin/keys',
+    tag: 'Admin',
+    summary: 'List API keys',
+    scope: 'admin',
+    response: { status: 200, description: 'Every issued key.', schema: OBJECT },
+  },
+  {
+    operationId: 'revokeApiKey',
+    method: 'delete',
+    path: '/api/v2/admin/keys/:id',
+    tag: 'Admin',
+    summary: 'Revoke an API key',
+    scope: 'admin',
+    parameters: [idParam('API key')],
+    response: { status: 200, description: 'The revoked key.', schema: OBJECT },
+    errors: ['KEY_NOT_FOUND'],
+  },
+  {
+    operationId: 'replaceCredentials',
+    method: 'put',
+    path: '/admin/credentials',
+    tag: 'Admin',
+    summary: 'Swap in new LinkedIn session cookies',
+    description:
+      'The cookies are probed against LinkedIn before the swap; if they are ' +
+      'rejected, the current session keeps serving. Accepted cookies are ' +
+      'saved to the credential store. The CSRF token is derived from ' +
+      'JSESSIONID.',
+    scope: 'admin',
+    requestBody: {
+      type: 'object',
+      required: ['cookies'],
+      properties: {
+        cookies: {
+          type: 'object',
+          required: REQUIRED_COOKIES,
+          additionalProperties: { type: 'string' },
+        },
+      },
+    },
+    response: {
+      status: 200,
+      description: 'The names of the cookies now in use.',
+      schema: OBJECT,
+    },
+    errors: [
+      'INVALID_JSON',
+      'INVALID_CREDENTIALS',
+      'CREDENTIALS_REJECTED',
+      'SESSION_SWAP_UNAVAILABLE',
+      'RATE_LIMITED',
+      'UPSTREAM_FAILURE',
+      'TIMEOUT',
+    ],
+  },
+  {
+    operationId: 'importCredentials',
+    method: 'post',
+    path: '/admin/credentials/import',
+    tag: 'Admin',
+    summary: 'Swap in cookies from a browser export',
+    description:
+      'Send a Netscape cookies.txt file, a HAR capture or a cookie ' +
+      'extension JSON export as the raw body. Only linkedin.com cookies are ' +
+      'kept; missing required cookies are reported before anything is ' +
+      'swapped or saved. Otherwise behaves like PUT /admin/credentials.',
+    scope: 'admin',
+    parameters: [
+      {
+        name: 'format',
+        in: 'query',
+        description: 'Export format; detected from the body when omitted.',
+        schema: { type: 'string', enum: COOKIE_EXPORT_FORMATS },
+        errorCode: 'INVALID_FORMAT',
+      },
+    ],
+    requestBody: { type: 'string' },
+    requestContentType: 'text/plain',
+    response: {
+      status: 200,
+      description: 'The names of the imported cookies now in use.',
+      schema: OBJECT,
+    },
+    errors: [
+      'INVALID_COOKIE_EXPORT',
+      'INVALID_CREDENTIALS',
+      'PAYLOAD_TOO_LARGE',
+      'CREDENTIALS_REJECTED',
+      'SESSION_SWAP_UNAVAILABLE',
+      'RATE_LIMITED',
+      'UPSTREAM_FAILURE',
+      'TIMEOUT',
+    ],
+  },
+];
+
+// ── OpenAPI document ──────────────────────────────────────────────────
+
+/**
+ * The OpenAPI description of every route in OPERATIONS. 3.1, because its
+ * schemas are plain JSON Schema and ProfileData's can be embedded as is.
+ */
+export function buildOpenApiDocument(): object {
+  const paths: Record<string, Record<string, object>> = {};
+  for (const operation of OPERATIONS) {
+    const route = operation.path.replace(/:(\w+)/g, '{$1}');
+    paths[route] = {
+      ...paths[route],
+      [operation.method]: toOperation(operation),
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'LinkedIn API Service',
+      version: '2',
+      description:
+        'Every JSON response is an envelope: `{ success: true, data }` or ' +
+        '`{ success: false, error }`. Authenticate with ' +
+        '`Authorization: Bearer <api key>`.',
+    },
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer' },
+      },
+      schemas: {
+        ErrorResponse: {
+          type: 'object',
+          required: ['success', 'error'],
+          properties: {
+            success: { const: false },
+            error: {
+              type: 'object',
+              required: ['code', 'message'],
+              properties: {
+                code: { type: 'string', enum: Object.keys(ERROR_CODES) },
+                message: { type: 'string' },
+                details: {},
+                retryable: { type: 'boolean' },
+                retryAfterSeconds: { type: 'integer' },
+                requestId: {
+                  type: 'string',
+                  description: 'Same as the X-Request-Id response header.',
+                },
+              },
+            },
+          },
+        },
+        ...profileDataDefinitions(),
+      },
+    },
+  };
+}
+
+function toOperation(operation: OperationSpec): object {
+  return {
+    operationId: operation.operationId,
+    tags: [operation.tag],
+    summary: operation.summary,
+    description: [operation.description, scopeNote(operation)]
+      .filter(Boolean)
+      .join('\n\n'),
+    security: operation.scope === null ? [] : [{ bearerAuth: [] }],
+    parameters: (operation.parameters ?? []).map((parameter) => ({
+      name: parameter.name,
+      in: parameter.in,
+      description: parameter.description,
+      required: parameter.required ?? false,
+      schema: parameter.schema,
+      // ?sections=a,b rather than ?sections=a&sections=b
+      ...(parameter.schema.type === 'array'
+        ? { style: 'form', explode: false }
+        : {}),
+    })),
+    ...(operation.requestBody && {
+      requestBody: {
+        required: true,
+        content: {
+          [operation.requestContentType ?? 'application/json']: {
+            schema: operation.requestBody,
+          },
+        },
+      },
+    }),
+    responses: {
+      [operation.response.status]: successResponse(operation),
+      ...errorResponses(operation),
+    },
+  };
+}
+
+function successResponse(operation: OperationSpec): object {
+  const { description, contentType, schema } = operation.response;
+  if (contentType) {
+    return { description, content: { [contentType]: {} } };
+  }
+
+  return {
+    description,
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          required: ['success', 'data'],
+          properties: { success: { const: true }, data: schema },
+        },
+      },
+    },
+  };
+}
+
+/** One response per status, listing the error codes behind it. */
+function errorResponses(operation: OperationSpec): Record<string, object> {
+  const byStatus = new Map<number, string[]>();
+  for (const code of errorCodesFor(operation)) {
+    const { status } = ERROR_CODES[code];
+    byStatus.set(status, [...(byStatus.get(status) ?? []), code]);
+  }
+
+  const responses: Record<string, object> = {};
+  for (const [status, codes] of [...byStatus].sort(([a], [b]) => a - b)) {
+    responses[status] = {
+      description: codes.join(', '),
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/ErrorResponse' },
+        },
+      },
+    };
+  }
+  return responses;
+}
+
+/** ProfileData and the types it uses, re-pointed at components/schemas. */
+function profileDataDefinitions(): Record<string, object> {
+  return JSON.parse(
+    JSON.stringify(profileDataSchema.definitions).replace(
+      /#\/definitions\//g,
+      '#/components/schemas/'
+    )
+  );
+}
+
+// ── Docs page ─────────────────────────────────────────────────────────
+
+const DOCS_TEMPLATE = path.join(
+  __dirname,
+  '..',
+  'templates',
+  'docs',
+  'api.html.hbs'
+);
+
+/** The HTML reference served at /docs. */
+export function renderApiDocs(): string {
+  const template = Handlebars.compile(fs.readFileSync(DOCS_TEMPLATE, 'utf-8'));
+  const tags = [...new Set(OPERATIONS.map((operation) => operation.tag))];
+
+  return template({
+    groups: tags.map((tag) => ({
+      tag,
+      operations: OPERATIONS.filter((operation) => operation.tag === tag).map(
+        (operation) => ({
+          ...operation,
+          method: operation.method.toUpperCase(),
+          scope: scopeNote(operation),
+          parameters: operation.parameters?.map((parameter) => ({
+            ...parameter,
+            type: describeSchema(parameter.schema),
+          })),
+          errors: errorCodesFor(operation),
+        })
+      ),
+    })),
+    errorCodes: Object.entries(ERROR_CODES).map(([code, spec]) => ({
+      code,
+      ...spec,
+    })),
+  });
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+/** The values `schema` accepts, in words. */
+export function describeSchema(schema: ParameterSchema): string {
+  if (schema.type === 'array') {
+    return `Comma-separated list of: ${schema.items.enum.join(', ')}`;
+  }
+  if (schema.type === 'integer') {
+    const { minimum, maximum } = schema;
+    if (minimum !== undefined && maximum !== undefined) {
+      return `Integer from ${minimum} to ${maximum}`;
+    }
+    return minimum !== undefined ? `Integer of at least ${minimum}` : 'Integer';
+  }
+  if (schema.enum) return `Valid values: ${schema.enum.join(', ')}`;
+  return schema.pattern ? `String matching ${schema.pattern}` : 'String';
+}
+
+function scopeNote(operation: OperationSpec): string {
+  if (operation.scope === null) return 'No API key needed.';
+  if (operation.scope === 'any') return 'Any API key.';
+  return `Needs an API key with the ${operation.scope} scope.`;
+}
+
+/** Every error code `operation` can return, in ERROR_CODES order. */
+function errorCodesFor(operation: OperationSpec): string[] {
+  const codes = new Set([
+    ...(operation.scope === null ? [] : AUTH_ERRORS),
+    ...(operation.parameters ?? []).map((parameter) => parameter.errorCode),
+    ...(operation.errors ?? []),
+    'INTERNAL_ERROR',
+  ]);
+  return Object.keys(ERROR_CODES).filter((code) => codes.has(code));
+}
@@ -0,0 +1,121 @@
+import { Job, ProfileData } from './types';
+import { parseDurationCaption } from './voyager-parser';
+
+/** Column order of the flattened CSV export. */
+export const CSV_COLUMNS = [
+  'vanityName',
+  'firstName',
+  'lastName',
+  'headline',
+  'profileLocation',
+  'entryType',
+  'title',
+  'organization',
+  'startDate',
+  'endDate',
+  'location',
+  'description',
+] as const;
+
+type CsvRow = Record<(typeof CSV_COLUMNS)[number], string | null>;
+
+/**
+ * One NDJSON line per batch entry, in batch order. Entries whose job has
+ * not finished are included with their current status and no data.
+ */
+export function toNdjson(
+  entries: Array<{ input: string; vanityName: string; job: Job | null }>
+): string {
+  const lines = entries.map(({ input, vanityName, job }) =>
+    JSON.stringify({
+      input,
+      vanityName,
+      status: job?.status ?? 'unknown',
+      data: job?.result ?? null,
+      error: job?.error ?? null,
+    })
+  );
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Flatten profiles to CSV with one row per experience and education entry.
+ * A profile with neither still gets one row carrying its basic info.
+ */
+export function toCsv(profiles: ProfileData[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+
+  for (const profile of profiles) {
+    for (const row of flattenProfile(profile)) {
+      lines.push(CSV_COLUMNS.map((col) => csvField(row[col])).join(','));
+    }
+  }
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+function flattenProfile(profile: ProfileData): CsvRow[] {
+  const base = {
+    vanityName: profile.metadata.vanityName,
+    firstName: profile.basicInfo.firstName,
+    lastName: profile.basicInfo.lastName,
+    headline: profile.basicInfo.headline,
+    profileLocation: profile.basicInfo.location,
+  };
+
+  const rows: CsvRow[] = [];
+
+  for (const exp of profile.experience) {
+    rows.push({
+      ...base,
+      entryType: 'experience',
+      title: exp.title,
+      organization: exp.company,
+      startDate: exp.startDate,
+      endDate: exp.endDate,
+      location: exp.location,
+      description: exp.description,
+    });
+  }
+
+  for (const edu of profile.education) {
+    const { startDate, endDate } = parseDurationCaption(edu.dates);
+    rows.push({
+      ...base,
+      entryType: 'education',
+      title: edu.degree,
+      organization: edu.schoolName,
+      startDate,
+      endDate,
+      location: null,
+      description: edu.additionalInfo,
+    });
+  }
+
+  if (rows.length === 0) {
+    rows.push({
+      ...base,
+      entryType: null,
+      title: null,
+      organization: null,
+      startDate: null,
+      endDate: null,
+      location: null,
+      description: null,
+    });
+  }
+
+  return rows;
+}
+
+function csvField(value: string | null): string {
+  if (value === null) return '';
+
+  // Neutralise spreadsheet formulas in scraped text (CSV injection)
+  let text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+  if (/[",\r\n]/.test(text)) {
+    text = `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
@@ -1,4 +1,19 @@
-import { chromium, Browser, BrowserContext, Page } from 'playwright';
+import {
+  chromium,
+  errors as playwrightErrors,
+  Browser,
+  BrowserContext,
+  Page,
+} from 'playwright';
+import {
+  SessionExpiredError,
+  TimeoutError,
+  upstreamError,
+  VerificationRequiredError,
+} from './errors';
+import { log } from './logger';
+import { buildVoyagerHeaders } from './transports/transport';
+import { BrowserApiResult } from './types';
 
 interface BrowserSessionConfig {
   cookies: Array<{
@@ -34,19 +49,10 @@ export class BrowserManager {
   private mutexLocked = false;
 
   async init(config: BrowserSessionConfig): Promise<void> {
-    console.log('🌐 Launching Chromium browser...');
+    log.info('Launching Chromium browser');
 
     this.headless = config.headless ?? true;
-
-    this.browser = await chromium.launch({
-      headless: this.headless,
-      args: [
-        '--disable-blink-features=AutomationControlled',
-        '--disable-dev-shm-usage',
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-      ],
-    });
+    this.browser = await this.launchBrowser();
 
     this.context = await this.browser.newContext({
       userAgent:
@@ -83,7 +89,7 @@ export class BrowserManager {
     this.page = await this.context.newPage();
 
     // Navigate to LinkedIn to establish session + let PerimeterX JS execute
-    console.log('🔄 Navigating to LinkedIn to establish session...');
+    log.info('Navigating to LinkedIn to establish session');
     try {
       await this.page.goto('https://www.linkedin.com/feed/', {
         waitUntil: 'domcontentloaded',
@@ -91,28 +97,22 @@ export class BrowserManager {
       });
     } catch {
       // Even if navigation times out, the session/cookies are likely set
-      console.log('   ⚠ Feed page load timed out, continuing with session...');
+      log.warn('Feed page load timed out, continuing with session');
     }
 
     // Give PerimeterX JS time to execute and regenerate _px3
     await this.sleep(3000);
 
-    // Extract csrf-token from JSESSIONID cookie
-    const cookies = await this.context.cookies('https://www.linkedin.com');
-    const jsession = cookies.find((c) => c.name === 'JSESSIONID');
-    if (jsession) {
-      this.csrfToken = jsession.value.replace(/"/g, '');
-    }
+    this.csrfToken = await this.csrfTokenFrom(this.context);
 
     if (!this.csrfToken) {
-      throw new Error(
+      throw new SessionExpiredError(
         'Could not extract CSRF token from browser cookies. Session may be invalid.'
       );
     }
 
     this.ready = true;
-    console.log('✅ Browser session established');
-    console.log(`   CSRF token: ${this.csrfToken.substring(0, 20)}...`);
+    log.info('Browser session established');
   }
 
   /**
@@ -120,73 +120,81 @@ export class BrowserManager {
    * This runs inside the Chromium JS context, so TLS fingerprint,
    * cookies, and _px3 all match a real browser.
    */
-  async makeApiCall(url: string): Promise<{
-    error: boolean;
-    status: number;
-    statusText?: string;
-    data?: any;
-  }> {
+  async makeApiCall(url: string): Promise<BrowserApiResult> {
     this.ensureReady();
     await this.acquireMutex();
 
     try {
-      const csrfToken = this.csrfToken;
-
-      const result = await this.page!.evaluate(
-        async ({ url, csrfToken }) => {
-          try {
-            const resp = await fetch(url, {
-              method: 'GET',
-              headers: {
-                accept: 'application/vnd.linkedin.normalized+json+2.1',
-                'csrf-token': csrfToken,
-                'x-li-lang': 'en_US',
-                'x-restli-protocol-version': '2.0.0',
-                'x-li-track': JSON.stringify({
-                  clientVersion: '1.13.42450',
-                  mpVersion: '1.13.42450',
-                  osName: 'web',
-                  timezoneOffset: 5.5,
-                  timezone: 'Asia/Calcutta',
-                  deviceFormFactor: 'DESKTOP',
-                  mpName: 'voyager-web',
-                  displayDensity: 2,
-                  displayWidth: 5120,
-                  displayHeight: 2880,
-                }),
-              },
-              credentials: 'include',
-            });
-
-            if (!resp.ok) {
-              const text = await resp.text().catch(() => '');
-              return {
-                error: true,
-                status: resp.status,
-                statusText: resp.statusText,
-                data: text,
-              };
-            }
-
-            const json = await resp.json();
-            return { error: false, status: resp.status, data: json };
-          } catch (err: any) {
-            return {
-              error: true,
-              status: 0,
-              statusText: err?.message || 'Unknown error',
-            };
-          }
-        },
-        { url, csrfToken }
-      );
-
-      return result;
+      return await this.fetchInPage(this.page!, url, this.csrfToken);
     } finally {
       this.releaseMutex();
     }
   }
 
+  /**
+   * Replace the session with one built from `config.cookies`, without
+   * downtime. The new context loads the feed and must pass `probeUrl`
+   * before anything changes; calls queued meanwhile finish on the old page
+   * and the rest move to the new one once it is swapped in. If the probe
+   * fails, the new context is discarded and the old session is kept.
+   */
+  async swapSession(
+    config: BrowserSessionConfig,
+    probeUrl: string
+  ): Promise<void> {
+    // Startup may have failed before the browser was even launched
+    if (!this.browser) {
+      this.headless = config.headless ?? this.headless;
+      this.browser = await this.launchBrowser();
+    }
+
+    log.info('Probing new session');
+    const newContext = await this.createStealthContext();
+
+    try {
+      await newContext.addCookies(config.cookies);
+      const newPage = await newContext.newPage();
+      await newPage
+        .goto('https://www.linkedin.com/feed/', {
+          waitUntil: 'domcontentloaded',
+          timeout: 30000,
+        })
+        .catch(() => log.warn('Feed page load timed out, probing anyway'));
+      await this.sleep(3000);
+
+      const csrfToken = await this.csrfTokenFrom(newContext);
+      if (!csrfToken) {
+        throw new SessionExpiredError(
+          'New cookies set no JSESSIONID, so there is no CSRF token.'
+        );
+      }
+
+      const probe = await this.fetchInPage(newPage, probeUrl, csrfToken);
+      if (probe.error) {
+        throw upstreamError(probe, 'Session probe');
+      }
+
+      // Swap between two calls, never during one
+      await this.acquireMutex();
+      const oldContext = this.context;
+      this.context = newContext;
+      this.page = newPage;
+      this.csrfToken = csrfToken;
+      this.ready = true;
+      this.releaseMutex();
+
+      // Closing the context closes its pages too
+      if (oldContext) await oldContext.close().catch(() => {});
+      log.info('New session swapped in');
+    } catch (err) {
+      await newContext.close().catch(() => {});
+      if (err instanceof playwrightErrors.TimeoutError) {
+        throw new TimeoutError('Session probe did not complete in time', err);
+      }
+      throw err;
+    }
+  }
+
   /**
    * Navigate to a LinkedIn page (for ambient traffic).
    */
@@ -236,9 +244,9 @@ export class BrowserManager {
     }
 
     this.sessionRefreshCount++;
-    console.log(
-      `\n🔄 Session refresh #${this.sessionRefreshCount} — logging in as ${email}...`
-    );
+    log.info('Refreshing session via login', {
+      refresh: this.sessionRefreshCount,
+    });
 
     // Keep references to old context/page so we can restore on failure
     const oldContext = this.context;
@@ -287,7 +295,7 @@ export class BrowserManager {
         // Login needs verification — discard the new context, keep old session
         await loginPage.close().catch(() => {});
         await newContext.close().catch(() => {});
-        throw new Error(
+        throw new VerificationRequiredError(
           'LinkedIn requires verification (CAPTCHA/email/phone). ' +
             'Please login manually in a browser to clear the challenge, ' +
             'then update credentials.'
@@ -295,7 +303,7 @@ export class BrowserManager {
       }
 
       // Login succeeded — let PerimeterX JS settle
-      console.log('   ✓ Login successful, establishing session...');
+      log.info('Login successful, establishing session');
       await this.sleep(3000);
 
       // Extract all cookies from the new context
@@ -309,7 +317,9 @@ export class BrowserManager {
       if (!jsession) {
         await loginPage.close().catch(() => {});
         await newContext.close().catch(() => {});
-        throw new Error('Login succeeded but JSESSIONID cookie not found.');
+        throw new SessionExpiredError(
+          'Login succeeded but JSESSIONID cookie not found.'
+        );
       }
 
       // Everything good — swap out old context for the new one
@@ -332,8 +342,9 @@ export class BrowserManager {
       await this.sleep(2000);
 
       this.ready = true;
-      console.log(`   ✓ New session established (CSRF: ${this.csrfToken.substring(0, 20)}...)`);
-      console.log(`   ✓ Got ${Object.keys(cookieMap).length} cookies\n`);
+      log.info('New session established', {
+        cookieCount: Object.keys(cookieMap).length,
+      });
 
       return { csrfToken: this.csrfToken, cookies: cookieMap };
     } catch (err) {
@@ -347,10 +358,38 @@ export class BrowserManager {
       this.csrfToken = oldCsrf;
       this.ready = !!(oldPage && oldContext);
 
+      if (err instanceof playwrightErrors.TimeoutError) {
+        throw new TimeoutError('Login did not complete in time', err);
+      }
       throw err;
     }
   }
 
+  /**
+   * Print an HTML document to PDF in a throwaway context that shares no
+   * cookies with the LinkedIn session and cannot reach the network, so a
+   * template can never leak the session or fetch remote content.
+   */
+  async printToPdf(html: string): Promise<Buffer> {
+    if (!this.browser) {
+      throw new Error('Browser not launched. Call init() first.');
+    }
+
+    const ctx = await this.browser.newContext({ javaScriptEnabled: false });
+    try {
+      await ctx.route('**/*', (route) => route.abort());
+      const page = await ctx.newPage();
+      await page.setContent(html, { waitUntil: 'load', timeout: 15000 });
+      return await page.pdf({
+        format: 'A4',
+        printBackground: true,
+        margin: { top: '16mm', bottom: '16mm', left: '14mm', right: '14mm' },
+      });
+    } finally {
+      await ctx.close().catch(() => {});
+    }
+  }
+
   getSessionRefreshCount(): number {
     return this.sessionRefreshCount;
   }
@@ -391,6 +430,11 @@ export class BrowserManager {
     });
   }
 
+  /** API calls waiting for the page (not counting the one in flight). */
+  getQueueDepth(): number {
+    return this.mutexQueue.length;
+  }
+
   private releaseMutex(): void {
     if (this.mutexQueue.length > 0) {
       const next = this.mutexQueue.shift()!;
@@ -400,6 +444,67 @@ export class BrowserManager {
     }
   }
 
+  /** One Voyager call through `page`'s fetch(). */
+  private fetchInPage(
+    page: Page,
+    url: string,
+    csrfToken: string
+  ): Promise<BrowserApiResult> {
+    const headers = buildVoyagerHeaders(csrfToken);
+
+    return page.evaluate(
+      async ({ url, headers }) => {
+        try {
+          const resp = await fetch(url, {
+            method: 'GET',
+            headers,
+            credentials: 'include',
+          });
+
+          if (!resp.ok) {
+            const text = await resp.text().catch(() => '');
+            return {
+              error: true,
+              status: resp.status,
+              statusText: resp.statusText,
+              data: text,
+              retryAfter: resp.headers.get('retry-after') ?? undefined,
+            };
+          }
+
+          const json = await resp.json();
+          return { error: false, status: resp.status, data: json };
+        } catch (err: any) {
+          return {
+            error: true,
+            status: 0,
+            statusText: err?.message || 'Unknown error',
+          };
+        }
+      },
+      { url, headers }
+    );
+  }
+
+  private launchBrowser(): Promise<Browser> {
+    return chromium.launch({
+      headless: this.headless,
+      args: [
+        '--disable-blink-features=AutomationControlled',
+        '--disable-dev-shm-usage',
+        '--no-sandbox',
+        '--disable-setuid-sandbox',
+      ],
+    });
+  }
+
+  /** The CSRF token is the JSESSIONID cookie's value, without quotes. */
+  private async csrfTokenFrom(context: BrowserContext): Promise<string> {
+    const cookies = await context.cookies('https://www.linkedin.com');
+    const jsession = cookies.find((c) => c.name === 'JSESSIONID');
+    return jsession ? jsession.value.replace(/"/g, '') : '';
+  }
+
   private async createStealthContext(): Promise<BrowserContext> {
     const ctx = await this.browser!.newContext({
       userAgent:
@@ -0,0 +1,84 @@
+import dns from 'dns';
+import net from 'net';
+
+/**
+ * Addresses a job callback may not reach: loopback, private, link-local
+ * (including cloud metadata at 169.254.169.254) and other non-public ranges.
+ * Callbacks carry scraped profile data, so an internal address would turn
+ * the service into a proxy into its own network.
+ */
+const BLOCKED_IPV4 = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_IPV4.addSubnet(network, prefix, 'ipv4');
+}
+
+// A separate list: a BlockList also matches IPv4 against IPv4-mapped rules
+const BLOCKED_IPV6 = new net.BlockList();
+for (const [network, prefix] of [
+  ['::', 127],
+  // IPv4-mapped (::ffff:127.0.0.1); never a callback's only route
+  ['::ffff:0:0', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_IPV6.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Why `url` may not receive a job callback, or null when it may.
+ *
+ * With an `allowedHosts` list, only those hostnames are accepted; the
+ * operator vouches for them. Otherwise every address the host resolves to
+ * must be public. Checked when the job is created and again before each
+ * delivery, since DNS answers can change in between.
+ */
+export async function callbackTargetProblem(
+  url: string,
+  allowedHosts: string[]
+): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'callbackUrl must be an absolute http(s) URL';
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return 'callbackUrl must be an absolute http(s) URL';
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (allowedHosts.length > 0) {
+    return allowedHosts.includes(host)
+      ? null
+      : `callbackUrl host is not allowed: ${host}`;
+  }
+
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(host, { all: true });
+  } catch {
+    return `callbackUrl host does not resolve: ${host}`;
+  }
+  if (addresses.length === 0 || addresses.some(isBlocked)) {
+    return `callbackUrl must point to a public address: ${host}`;
+  }
+  return null;
+}
+
+function isBlocked({ address, family }: dns.LookupAddress): boolean {
+  return family === 6
+    ? BLOCKED_IPV6.check(address, 'ipv6')
+    : BLOCKED_IPV4.check(address, 'ipv4');
+}
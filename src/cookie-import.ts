@@ -0,0 +1,177 @@
+export type CookieExportFormat = 'cookies.txt' | 'har' | 'json';
+
+/** Cookie export formats `parseCookieExport` understands. */
+export const COOKIE_EXPORT_FORMATS: CookieExportFormat[] = [
+  'cookies.txt',
+  'har',
+  'json',
+];
+
+export interface CookieImport {
+  format: CookieExportFormat;
+  /** linkedin.com cookies by name; a later duplicate wins. */
+  cookies: Record<string, string>;
+  /** Cookies dropped for another domain or a past expiry. */
+  skipped: number;
+}
+
+/** One cookie as found in an export, before filtering. */
+interface ExportedCookie {
+  name: string;
+  value: string;
+  /** Missing when the export does not say (HAR request cookies). */
+  domain?: string;
+  /** Unix seconds; missing or 0 for a session cookie. */
+  expires?: number;
+}
+
+/**
+ * Extract the linkedin.com cookies from a browser export:
+ *
+ * - `cookies.txt`: the Netscape format written by curl, wget and most
+ *   "export cookies" extensions.
+ * - `har`: a DevTools network capture; cookies from every request and
+ *   response are collected in order.
+ * - `json`: an array of `{name, value, domain}` objects (EditThisCookie,
+ *   Cookie-Editor) or an object wrapping one in `cookies`.
+ *
+ * The format is detected when not given. Throws when the text is not a
+ * cookie export in that format.
+ */
+export function parseCookieExport(
+  text: string,
+  format: CookieExportFormat = detectFormat(text)
+): CookieImport {
+  const exported =
+    format === 'cookies.txt'
+      ? parseNetscape(text)
+      : parseJsonExport(text, format);
+
+  const now = Date.now() / 1000;
+  const cookies: Record<string, string> = {};
+  let skipped = 0;
+
+  for (const cookie of exported) {
+    const expired = !!cookie.expires && cookie.expires < now;
+    if (!isLinkedInDomain(cookie.domain) || expired) {
+      skipped++;
+      continue;
+    }
+    cookies[cookie.name] = cookie.value;
+  }
+
+  return { format, cookies, skipped };
+}
+
+function detectFormat(text: string): CookieExportFormat {
+  let value: any;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return 'cookies.txt';
+  }
+  return Array.isArray(value?.log?.entries) ? 'har' : 'json';
+}
+
+// ── cookies.txt ───────────────────────────────────────────────────────
+
+/** Lines starting with this are HttpOnly cookies, not comments. */
+const HTTP_ONLY_PREFIX = '#HttpOnly_';
+
+function parseNetscape(text: string): ExportedCookie[] {
+  const cookies: ExportedCookie[] = [];
+
+  for (let line of text.split(/\r?\n/)) {
+    if (line.startsWith(HTTP_ONLY_PREFIX)) {
+      line = line.slice(HTTP_ONLY_PREFIX.length);
+    } else if (!line.trim() || line.startsWith('#')) {
+      continue;
+    }
+
+    // domain, subdomains flag, path, secure flag, expiry, name, value
+    const fields = line.split('\t');
+    if (fields.length !== 7) {
+      throw new Error(
+        'Not a cookies.txt export: expected 7 tab-separated fields per line'
+      );
+    }
+    const [domain, , , , expires, name, value] = fields;
+    cookies.push({ name, value, domain, expires: Number(expires) || 0 });
+  }
+  return cookies;
+}
+
+// ── HAR and extension JSON ────────────────────────────────────────────
+
+function parseJsonExport(
+  text: string,
+  format: 'har' | 'json'
+): ExportedCookie[] {
+  let value: any;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error(`Not a ${format} export: invalid JSON`);
+  }
+
+  if (format === 'har') {
+    if (!Array.isArray(value?.log?.entries)) {
+      throw new Error('Not a har export: no log.entries');
+    }
+    return value.log.entries.flatMap(harEntryCookies);
+  }
+
+  const list = Array.isArray(value) ? value : value?.cookies;
+  if (!Array.isArray(list)) {
+    throw new Error('Not a json export: expected an array of cookies');
+  }
+  return list.map((cookie) =>
+    exportedCookie(cookie, cookie?.domain, cookie?.expirationDate)
+  );
+}
+
+/**
+ * Cookies sent with an entry's request, then those its response set. A
+ * request cookie carries no domain, so it takes the request URL's host.
+ */
+function harEntryCookies(entry: any): ExportedCookie[] {
+  let host: string | undefined;
+  try {
+    host = new URL(entry?.request?.url).hostname;
+  } catch {
+    host = undefined;
+  }
+
+  const sent = (entry?.request?.cookies ?? []).map((cookie: any) =>
+    exportedCookie(cookie, host)
+  );
+  const set = (entry?.response?.cookies ?? []).map((cookie: any) =>
+    exportedCookie(
+      cookie,
+      cookie?.domain ?? host,
+      cookie?.expires ? Date.parse(cookie.expires) / 1000 : undefined
+    )
+  );
+  return [...sent, ...set];
+}
+
+function exportedCookie(
+  cookie: any,
+  domain: unknown,
+  expires?: unknown
+): ExportedCookie {
+  if (typeof cookie?.name !== 'string' || typeof cookie.value !== 'string') {
+    throw new Error('Every exported cookie needs a string name and value');
+  }
+  return {
+    name: cookie.name,
+    value: cookie.value,
+    domain: typeof domain === 'string' ? domain : undefined,
+    expires: typeof expires === 'number' ? expires : undefined,
+  };
+}
+
+function isLinkedInDomain(domain: string | undefined): boolean {
+  const host = (domain ?? '').replace(/^\./, '').toLowerCase();
+  return host === 'linkedin.com' || host.endsWith('.linkedin.com');
+}
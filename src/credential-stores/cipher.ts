@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+const scrypt = promisify(crypto.scrypt) as (
+  secret: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keyLength: number
+) => Promise<Buffer>;
+
+const ALGORITHM = 'aes-256-gcm';
+
+/** On-disk format of an encrypted credentials file. */
+interface EncryptedEnvelope {
+  algorithm: typeof ALGORITHM;
+  /** scrypt salt for deriving the key from the secret. */
+  salt: string;
+  iv: string;
+  /** GCM authentication tag; decryption fails if anything was altered. */
+  tag: string;
+  ciphertext: string;
+}
+
+/**
+ * AES-256-GCM encryption of credentials text, keyed from a secret through
+ * scrypt. Derived keys are cached per salt, and a cipher keeps the salt it
+ * first saw, so repeated saves skip the deliberately slow derivation.
+ */
+export class CredentialCipher {
+  private secret: string;
+  private salt: Buffer | null = null;
+  private keys = new Map<string, Buffer>();
+
+  constructor(secret: string) {
+    if (!secret) throw new Error('An encryption secret is required');
+    this.secret = secret;
+  }
+
+  async encrypt(plaintext: string): Promise<string> {
+    this.salt ??= crypto.randomBytes(16);
+    const key = await this.keyFor(this.salt);
+    const iv = crypto.randomBytes(12);
+
+    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext, 'utf-8'),
+      cipher.final(),
+    ]);
+
+    const envelope: EncryptedEnvelope = {
+      algorithm: ALGORITHM,
+      salt: this.salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64'),
+    };
+    return JSON.stringify(envelope, null, 2);
+  }
+
+  /** Throws when the secret is wrong or the envelope was tampered with. */
+  async decrypt(text: string): Promise<string> {
+    const envelope: EncryptedEnvelope = JSON.parse(text);
+    const salt = Buffer.from(envelope.salt, 'base64');
+    const key = await this.keyFor(salt);
+    this.salt ??= salt;
+
+    const decipher = crypto.createDecipheriv(
+      ALGORITHM,
+      key,
+      Buffer.from(envelope.iv, 'base64')
+    );
+    decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(envelope.ciphertext, 'base64')),
+      decipher.final(),
+    ]).toString('utf-8');
+  }
+
+  private async keyFor(salt: Buffer): Promise<Buffer> {
+    const id = salt.toString('base64');
+    let key = this.keys.get(id);
+    if (!key) {
+      key = await scrypt(this.secret, salt, 32);
+      this.keys.set(id, key);
+    }
+    return key;
+  }
+}
+
+/** Whether `text` is an encrypted envelope rather than plain credentials. */
+export function isEncrypted(text: string): boolean {
+  try {
+    return JSON.parse(text)?.algorithm === ALGORITHM;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,69 @@
+import { LinkedInCredentials } from '../types';
+
+/**
+ * Keeps the LinkedIn session (cookies and CSRF token) between restarts.
+ *
+ * Stores cache the credentials in memory, so `load` is cheap enough to call
+ * on every request. `load` and `update` hand out copies, which callers are
+ * free to modify.
+ */
+export interface CredentialStore {
+  /** Human-readable name for logs and startup output. */
+  readonly name: string;
+
+  /** Where the credentials live (a path or variable name), for messages. */
+  readonly location: string;
+
+  /** Throws CredentialsMissingError when there are no credentials yet. */
+  load(): Promise<LinkedInCredentials>;
+
+  /** Replace the stored credentials, stamping `lastUpdated`. */
+  save(credentials: LinkedInCredentials): Promise<void>;
+
+  /**
+   * Load, apply `change` and save as one step, so two concurrent updates
+   * (a URN lookup and a session refresh, say) cannot undo each other.
+   */
+  update(
+    change: (credentials: LinkedInCredentials) => void
+  ): Promise<LinkedInCredentials>;
+}
+
+/** Parse and sanity-check credentials JSON read from `source`. */
+export function parseCredentials(
+  text: string,
+  source: string
+): LinkedInCredentials {
+  let credentials: any;
+  try {
+    credentials = JSON.parse(text);
+  } catch {
+    throw new Error(`Credentials in ${source} are not valid JSON`);
+  }
+
+  if (
+    typeof credentials?.csrfToken !== 'string' ||
+    typeof credentials.cookies !== 'object' ||
+    credentials.cookies === null
+  ) {
+    throw new Error(
+      `Credentials in ${source} need a csrfToken string and a cookies object`
+    );
+  }
+  return credentials;
+}
+
+/** Cookies without which LinkedIn treats a session as logged out. */
+export const REQUIRED_COOKIES = ['li_at', 'JSESSIONID'];
+
+/** Required cookies that `cookies` lacks or leaves empty. */
+export function missingCookies(cookies: Record<string, string>): string[] {
+  return REQUIRED_COOKIES.filter((name) => !cookies[name]);
+}
+
+/** Credentials for a cookie set; the CSRF token is JSESSIONID unquoted. */
+export function credentialsFromCookies(
+  cookies: Record<string, string>
+): LinkedInCredentials {
+  return { csrfToken: cookies.JSESSIONID.replace(/"/g, ''), cookies };
+}
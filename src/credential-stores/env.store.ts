@@ -0,0 +1,65 @@
+import { CredentialsMissingError } from '../errors';
+import { log } from '../logger';
+import { LinkedInCredentials } from '../types';
+import { CredentialStore, parseCredentials } from './credential-store';
+
+/**
+ * Credentials from an environment variable holding the credentials JSON,
+ * either as is or base64-encoded (as secret managers often hand it over).
+ *
+ * The environment cannot be written back, so saved changes (a resolved
+ * URN, refreshed cookies) only last until the process restarts.
+ */
+export class EnvCredentialStore implements CredentialStore {
+  readonly name = 'env';
+  readonly location: string;
+
+  private credentials: LinkedInCredentials | null = null;
+  private warnedNotPersisted = false;
+
+  constructor(options?: { variable?: string }) {
+    const variable = options?.variable ?? 'LINKEDIN_CREDENTIALS';
+    this.location = `$${variable}`;
+
+    const value = process.env[variable]?.trim();
+    if (value) {
+      const text = value.startsWith('{')
+        ? value
+        : Buffer.from(value, 'base64').toString('utf-8');
+      this.credentials = parseCredentials(text, this.location);
+    }
+  }
+
+  async load(): Promise<LinkedInCredentials> {
+    if (!this.credentials) {
+      throw new CredentialsMissingError(this.location);
+    }
+    return structuredClone(this.credentials);
+  }
+
+  async save(credentials: LinkedInCredentials): Promise<void> {
+    this.keep({ ...credentials, lastUpdated: new Date().toISOString() });
+  }
+
+  async update(
+    change: (credentials: LinkedInCredentials) => void
+  ): Promise<LinkedInCredentials> {
+    const credentials = await this.load();
+    change(credentials);
+    credentials.lastUpdated = new Date().toISOString();
+    this.keep(credentials);
+    return structuredClone(credentials);
+  }
+
+  private keep(credentials: LinkedInCredentials): void {
+    this.credentials = structuredClone(credentials);
+    if (!this.warnedNotPersisted) {
+      this.warnedNotPersisted = true;
+      log.warn(
+        'Credentials changed but cannot be written back to the environment; ' +
+          'the change lasts until restart',
+        { location: this.location }
+      );
+    }
+  }
+}
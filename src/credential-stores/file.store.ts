@@ -0,0 +1,176 @@
+import fs from 'fs';
+import path from 'path';
+import { CredentialsMissingError } from '../errors';
+import { log } from '../logger';
+import { LinkedInCredentials } from '../types';
+import { CredentialCipher, isEncrypted } from './cipher';
+import { CredentialStore, parseCredentials } from './credential-store';
+
+/** How long to wait for another writer before giving up. */
+const LOCK_TIMEOUT_MS = 10_000;
+
+/** A lock file this old was left behind by a process that died. */
+const STALE_LOCK_MS = 30_000;
+
+/**
+ * Credentials in a JSON file, optionally encrypted with AES-256-GCM.
+ *
+ * The file is read once and then served from memory. Writes go to a
+ * temporary file that is renamed over the real one, so a crash never
+ * leaves half-written cookies behind. They are serialised within the
+ * process and, through a `<file>.lock` file, across processes; `update`
+ * reads the file afresh under that lock.
+ *
+ * With `encryptionSecret`, a plain file found on disk is still accepted,
+ * and encrypted in place on first load.
+ */
+export class FileCredentialStore implements CredentialStore {
+  readonly name: string;
+  readonly location: string;
+
+  private file: string;
+  private cipher: CredentialCipher | null;
+  private cached: LinkedInCredentials | null = null;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(options: { file: string; encryptionSecret?: string }) {
+    this.file = options.file;
+    this.location = options.file;
+    this.cipher = options.encryptionSecret
+      ? new CredentialCipher(options.encryptionSecret)
+      : null;
+    this.name = this.cipher ? 'encrypted-file' : 'file';
+  }
+
+  async load(): Promise<LinkedInCredentials> {
+    if (!this.cached) {
+      const { credentials, encrypted } = await this.read();
+      if (this.cipher && !encrypted) {
+        log.warn('Credentials file is not encrypted; encrypting it', {
+          file: this.file,
+        });
+        await this.serialised(() =>
+          withFileLock(this.file, () => this.write(credentials))
+        );
+      }
+      this.cached = credentials;
+    }
+    return structuredClone(this.cached);
+  }
+
+  async save(credentials: LinkedInCredentials): Promise<void> {
+    await this.serialised(() =>
+      withFileLock(this.file, () =>
+        this.write({ ...credentials, lastUpdated: new Date().toISOString() })
+      )
+    );
+  }
+
+  /**
+   * Re-reads the file while holding the lock, so a change another process
+   * wrote since this one last loaded is kept rather than overwritten.
+   */
+  async update(
+    change: (credentials: LinkedInCredentials) => void
+  ): Promise<LinkedInCredentials> {
+    return this.serialised(() =>
+      withFileLock(this.file, async () => {
+        const { credentials } = await this.read();
+        change(credentials);
+        credentials.lastUpdated = new Date().toISOString();
+        await this.write(credentials);
+        return structuredClone(credentials);
+      })
+    );
+  }
+
+  private async read(): Promise<{
+    credentials: LinkedInCredentials;
+    encrypted: boolean;
+  }> {
+    if (!fs.existsSync(this.file)) {
+      throw new CredentialsMissingError(this.file);
+    }
+    const text = await fs.promises.readFile(this.file, 'utf-8');
+
+    if (!isEncrypted(text)) {
+      return {
+        credentials: parseCredentials(text, this.file),
+        encrypted: false,
+      };
+    }
+
+    if (!this.cipher) {
+      throw new Error(
+        `Credentials at ${this.file} are encrypted; set CREDENTIALS_KEY ` +
+          'and CREDENTIALS_STORE=encrypted-file'
+      );
+    }
+    let plaintext: string;
+    try {
+      plaintext = await this.cipher.decrypt(text);
+    } catch {
+      throw new Error(
+        `Cannot decrypt credentials at ${this.file}: ` +
+          'wrong key or corrupted file'
+      );
+    }
+    return {
+      credentials: parseCredentials(plaintext, this.file),
+      encrypted: true,
+    };
+  }
+
+  /**
+   * Atomically replace the file, then the cached copy. The caller holds
+   * the file lock.
+   */
+  private async write(credentials: LinkedInCredentials): Promise<void> {
+    const json = JSON.stringify(credentials, null, 2);
+    const contents = this.cipher ? await this.cipher.encrypt(json) : json;
+
+    const tmp = `${this.file}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tmp, contents, { mode: 0o600 });
+    await fs.promises.rename(tmp, this.file);
+    this.cached = structuredClone(credentials);
+  }
+
+  /** Run `fn` once every write queued before it has finished. */
+  private serialised<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(fn);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/** Run `fn` holding `<file>.lock`, created exclusively so one process wins. */
+async function withFileLock<T>(file: string, fn: () => Promise<T>): Promise<T> {
+  const lock = `${file}.lock`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+
+  for (;;) {
+    try {
+      await fs.promises.writeFile(lock, String(process.pid), { flag: 'wx' });
+      break;
+    } catch (err: any) {
+      if (err.code !== 'EEXIST') throw err;
+    }
+
+    const stat = await fs.promises.stat(lock).catch(() => null);
+    if (stat && Date.now() - stat.mtimeMs > STALE_LOCK_MS) {
+      log.warn('Removing stale credentials lock', { lock });
+      await fs.promises.rm(lock, { force: true });
+    } else if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for credentials lock: ${lock}`);
+    } else {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await fs.promises.rm(lock, { force: true });
+  }
+}
@@ -0,0 +1,9 @@
+export {
+  CredentialStore,
+  REQUIRED_COOKIES,
+  credentialsFromCookies,
+  missingCookies,
+  parseCredentials,
+} from './credential-store';
+export { EnvCredentialStore } from './env.store';
+export { FileCredentialStore } from './file.store';
@@ -0,0 +1,124 @@
+import { DateRange, YearMonth } from './types';
+
+/**
+ * Month names as LinkedIn renders them in its supported UI languages
+ * (full and abbreviated forms), indexed by month number - 1.
+ */
+const MONTH_NAMES: string[][] = [
+  ['january', 'jan', 'enero', 'ene', 'janvier', 'janv', 'januar', 'jän', 'janeiro', 'gennaio', 'gen', 'januari'],
+  ['february', 'feb', 'febrero', 'févr', 'février', 'fevr', 'februar', 'fevereiro', 'fev', 'febbraio', 'februari'],
+  ['march', 'mar', 'marzo', 'mars', 'märz', 'mär', 'março', 'maart', 'mrt'],
+  ['april', 'apr', 'abril', 'abr', 'avril', 'avr', 'aprile'],
+  ['may', 'mayo', 'mai', 'maio', 'maggio', 'mag', 'mei'],
+  ['june', 'jun', 'junio', 'juin', 'juni', 'junho', 'giugno', 'giu'],
+  ['july', 'jul', 'julio', 'juillet', 'juil', 'juli', 'julho', 'luglio', 'lug'],
+  ['august', 'aug', 'agosto', 'ago', 'août', 'aout', 'augustus'],
+  ['september', 'sept', 'sep', 'septiembre', 'set', 'septembre', 'setembro', 'settembre'],
+  ['october', 'oct', 'octubre', 'octobre', 'oktober', 'okt', 'outubro', 'out', 'ottobre', 'ott'],
+  ['november', 'nov', 'noviembre', 'novembre', 'novembro'],
+  ['december', 'dec', 'diciembre', 'dic', 'décembre', 'déc', 'dezember', 'dez', 'dezembro', 'dicembre'],
+];
+
+const MONTH_BY_NAME = new Map<string, number>();
+MONTH_NAMES.forEach((names, i) => {
+  for (const name of names) MONTH_BY_NAME.set(name, i + 1);
+});
+
+// Longest names first so "sept" wins over "sep" and "março" over "mar"
+const MONTH_PATTERN = [...MONTH_BY_NAME.keys()]
+  .sort((a, b) => b.length - a.length)
+  .join('|');
+
+// "Nov 2025", "janv. 2020", "ene. de 2020", or a bare "2017"
+const DATE_TOKEN = new RegExp(
+  `(?<!\\p{L})(?:(${MONTH_PATTERN})\\.?\\s+(?:de\\s+)?)?(\\d{4})(?!\\d)`,
+  'giu'
+);
+
+// "March 5, 2023" (month first) or "5 mars 2023", "5. März 2023",
+// "5 de marzo de 2023" (day first)
+const CALENDAR_DATE = new RegExp(
+  `(?<!\\p{L})(?:(${MONTH_PATTERN})\\.?\\s+(\\d{1,2}),?|(\\d{1,2})\\.?\\s+(?:de\\s+)?(${MONTH_PATTERN})\\.?)\\s+(?:de\\s+)?(\\d{4})(?!\\d)`,
+  'iu'
+);
+
+// "Present" in the same languages
+const PRESENT_PATTERN =
+  /(?<!\p{L})(present|current|presente|actualidad|actual|aujourd[’']hui|heute|atual|momento|oggi|attuale|heden)(?!\p{L})/iu;
+
+/**
+ * Parse a LinkedIn date caption into a structured range.
+ *
+ *   "Nov 2025 - Present · 5 mos"        → start 2025-11, end null, current
+ *   "2013 - 2017"                       → start 2013, end 2017 (no months)
+ *   "Issued Mar 2022 · Expires Mar 2025" → start 2022-03, end 2025-03
+ *
+ * The first date found is the start and the second the end. An item is
+ * current when the caption says "Present" (in any supported language) or
+ * its end lies in the future. `durationMonths` counts both end months, as
+ * LinkedIn does, and is null for single dates.
+ */
+export function parseDateRange(
+  caption: string | null,
+  now: Date = new Date()
+): DateRange {
+  const dates: YearMonth[] = [];
+  for (const match of (caption || '').matchAll(DATE_TOKEN)) {
+    const month = match[1]
+      ? MONTH_BY_NAME.get(match[1].toLowerCase()) ?? null
+      : null;
+    dates.push({ year: parseInt(match[2], 10), month });
+  }
+
+  const start = dates[0] ?? null;
+  const end = dates[1] ?? null;
+  const today: YearMonth = {
+    year: now.getFullYear(),
+    month: now.getMonth() + 1,
+  };
+
+  const isCurrent =
+    start !== null &&
+    ((end === null && PRESENT_PATTERN.test(caption || '')) ||
+      (end !== null && monthIndex(end, 'end') > monthIndex(today, 'end')));
+
+  let durationMonths: number | null = null;
+  if (start && (end || isCurrent)) {
+    const until =
+      end && monthIndex(end, 'end') <= monthIndex(today, 'end') ? end : today;
+    durationMonths = Math.max(
+      0,
+      monthIndex(until, 'end') - monthIndex(start, 'start') + 1
+    );
+  }
+
+  return { start, end, isCurrent, durationMonths };
+}
+
+/**
+ * Parse a full date such as "March 5, 2023" (recommendation captions) into
+ * ISO `YYYY-MM-DD`. Returns null when the text holds no day-precise date.
+ */
+export function parseCalendarDate(text: string | null): string | null {
+  const match = (text || '').match(CALENDAR_DATE);
+  if (!match) return null;
+
+  const month = MONTH_BY_NAME.get((match[1] || match[4]).toLowerCase());
+  const day = parseInt(match[2] || match[3], 10);
+  if (!month || day < 1 || day > 31) return null;
+
+  return `${match[5]}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/** "2025-11", or "2017" when the month is unknown. */
+export function formatYearMonth(date: YearMonth | null): string | null {
+  if (!date) return null;
+  return date.month === null
+    ? String(date.year)
+    : `${date.year}-${String(date.month).padStart(2, '0')}`;
+}
+
+/** Months since year 0; a year-only date spans January to December. */
+function monthIndex(date: YearMonth, edge: 'start' | 'end'): number {
+  return date.year * 12 + (date.month ?? (edge === 'start' ? 1 : 12));
+}
@@ -0,0 +1,133 @@
+import { BrowserApiResult } from './types';
+
+export type ServiceErrorCode =
+  | 'PROFILE_NOT_FOUND'
+  | 'CREDENTIALS_MISSING'
+  | 'SESSION_EXPIRED'
+  | 'VERIFICATION_REQUIRED'
+  | 'RATE_LIMITED'
+  | 'UPSTREAM_FAILURE'
+  | 'TIMEOUT';
+
+/**
+ * Base class for the failures the service layer reports on purpose. Callers
+ * branch on `code` (or `instanceof`), never on the message, which is for
+ * humans and may be reworded freely.
+ */
+export class ServiceError extends Error {
+  readonly code: ServiceErrorCode;
+  /** Whether the same request may succeed if it is simply tried again. */
+  readonly retryable: boolean;
+  /** How long to wait before retrying, when known. */
+  readonly retryAfterSeconds: number | null;
+
+  constructor(
+    code: ServiceErrorCode,
+    message: string,
+    options?: {
+      retryable?: boolean;
+      retryAfterSeconds?: number | null;
+      cause?: unknown;
+    }
+  ) {
+    super(message, { cause: options?.cause });
+    this.name = new.target.name;
+    this.code = code;
+    this.retryable = options?.retryable ?? false;
+    this.retryAfterSeconds = options?.retryAfterSeconds ?? null;
+  }
+}
+
+export class ProfileNotFoundError extends ServiceError {
+  constructor(vanityName: string) {
+    super(
+      'PROFILE_NOT_FOUND',
+      `Could not find profile for vanity name: ${vanityName}`
+    );
+  }
+}
+
+export class CredentialsMissingError extends ServiceError {
+  /** `location` is the credential store's file path or variable name. */
+  constructor(location: string) {
+    super(
+      'CREDENTIALS_MISSING',
+      `Credentials not found at: ${location}. ` +
+        'Please generate credentials first.'
+    );
+  }
+}
+
+/** LinkedIn rejected the session cookies; new credentials are needed. */
+export class SessionExpiredError extends ServiceError {
+  constructor(message: string) {
+    super('SESSION_EXPIRED', message);
+  }
+}
+
+/** A login hit a CAPTCHA/email/phone challenge only a human can clear. */
+export class VerificationRequiredError extends ServiceError {
+  constructor(message: string) {
+    super('VERIFICATION_REQUIRED', message);
+  }
+}
+
+export class RateLimitedError extends ServiceError {
+  constructor(message: string, retryAfterSeconds: number | null = null) {
+    super('RATE_LIMITED', message, { retryable: true, retryAfterSeconds });
+  }
+}
+
+/** LinkedIn (or the network in between) failed in some other way. */
+export class UpstreamFailureError extends ServiceError {
+  readonly upstreamStatus: number;
+
+  constructor(message: string, upstreamStatus: number) {
+    super('UPSTREAM_FAILURE', message, {
+      // Network errors and 5xx are usually transient; other 4xx are not
+      retryable: upstreamStatus === 0 || upstreamStatus >= 500,
+    });
+    this.upstreamStatus = upstreamStatus;
+  }
+}
+
+export class TimeoutError extends ServiceError {
+  constructor(message: string, cause?: unknown) {
+    super('TIMEOUT', message, { retryable: true, cause });
+  }
+}
+
+/** The error a failed Voyager call stands for; `what` names the call. */
+export function upstreamError(
+  result: BrowserApiResult,
+  what: string
+): ServiceError {
+  if (result.timedOut) {
+    return new TimeoutError(`${what} timed out`);
+  }
+  if (result.status === 401 || result.status === 403) {
+    return new SessionExpiredError(
+      `${what}: HTTP ${result.status}. Session may be expired.`
+    );
+  }
+  if (result.status === 429) {
+    return new RateLimitedError(
+      `${what}: HTTP 429. LinkedIn is rate limiting this session.`,
+      parseRetryAfter(result.retryAfter)
+    );
+  }
+  return new UpstreamFailureError(
+    `${what}: HTTP ${result.status} ${result.statusText || ''}`.trim(),
+    result.status
+  );
+}
+
+/** Seconds from a Retry-After header (delta-seconds or HTTP date). */
+function parseRetryAfter(header: string | undefined): number | null {
+  if (!header) return null;
+  if (/^\d+$/.test(header.trim())) return parseInt(header, 10);
+
+  const at = Date.parse(header);
+  if (isNaN(at)) return null;
+  return Math.max(0, Math.ceil((at - Date.now()) / 1000));
+}
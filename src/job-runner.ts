@@ -0,0 +1,327 @@
+import crypto from 'crypto';
+import { callbackTargetProblem } from './callback-target';
+import { ServiceError } from './errors';
+import { JobStore } from './job-store';
+import { DEFAULT_SECTIONS, LinkedInService } from './linkedin.service';
+import { log, withLogContext } from './logger';
+import { Batch, FetchOptions, Job, RequestAttribution } from './types';
+
+const CALLBACK_MAX_ATTEMPTS = 3;
+const CALLBACK_RETRY_BASE_MS = 5000;
+const CALLBACK_TIMEOUT_MS = 10000;
+
+/**
+ * Runs full-profile fetches in the background, one at a time, and delivers
+ * the outcome to an optional callback URL.
+ *
+ * Callbacks are POSTed as JSON and signed with HMAC-SHA256 over
+ * `<timestamp>.<body>` using the configured secret:
+ *
+ *   X-Signature-Timestamp: 1760000000
+ *   X-Signature: sha256=<hex digest>
+ *
+ * Only public addresses, or the hosts in `callbackAllowedHosts`, receive
+ * callbacks, and redirects are not followed.
+ */
+export class JobRunner {
+  private store: JobStore;
+  private service: LinkedInService;
+  private callbackSecret: string;
+  private callbackAllowedHosts: string[];
+  private queue: string[] = [];
+  private running = false;
+
+  constructor(options: {
+    store: JobStore;
+    service: LinkedInService;
+    callbackSecret?: string;
+    callbackAllowedHosts?: string[];
+  }) {
+    this.store = options.store;
+    this.service = options.service;
+    this.callbackSecret = options.callbackSecret || '';
+    this.callbackAllowedHosts = (options.callbackAllowedHosts ?? []).map(
+      (host) => host.toLowerCase()
+    );
+  }
+
+  /**
+   * Reload persisted jobs. Jobs interrupted mid-run are queued again and
+   * undelivered callbacks are retried.
+   */
+  resume(): void {
+    for (const job of this.store.load()) {
+      if (job.status === 'queued' || job.status === 'running') {
+        if (job.status === 'running') {
+          job.status = 'queued';
+          job.startedAt = null;
+          this.store.save(job);
+        }
+        this.queue.push(job.id);
+      } else if (job.callback?.status === 'pending') {
+        void this.deliverCallback(job);
+      }
+    }
+
+    if (this.queue.length > 0) {
+      log.info('Resuming queued jobs', { jobs: this.queue.length });
+    }
+    void this.drain();
+  }
+
+  canSignCallbacks(): boolean {
+    return this.callbackSecret.length > 0;
+  }
+
+  /** Why `url` may not receive callbacks, or null when it may. */
+  checkCallbackUrl(url: string): Promise<string | null> {
+    return callbackTargetProblem(url, this.callbackAllowedHosts);
+  }
+
+  enqueue(
+    vanityName: string,
+    options?: {
+      callbackUrl?: string;
+      maxAgeSeconds?: number;
+      attribution?: RequestAttribution;
+    }
+  ): Job {
+    const job: Job = {
+      id: crypto.randomUUID(),
+      vanityName,
+      status: 'queued',
+      createdAt: new Date().toISOString(),
+      startedAt: null,
+      finishedAt: null,
+      progress: {
+        basicInfo: false,
+        sections: {},
+        completedSections: 0,
+        totalSections: DEFAULT_SECTIONS.length,
+      },
+      fetchOptions:
+        options?.maxAgeSeconds !== undefined
+          ? { maxAgeSeconds: options.maxAgeSeconds }
+          : {},
+      attribution: options?.attribution ?? null,
+      callback: options?.callbackUrl
+        ? {
+            url: options.callbackUrl,
+            status: 'pending',
+            attempts: 0,
+            lastError: null,
+          }
+        : null,
+      result: null,
+      error: null,
+    };
+
+    this.store.save(job);
+    this.queue.push(job.id);
+    void this.drain();
+    return job;
+  }
+
+  /**
+   * Queue one job per distinct vanity name and group them as a batch.
+   * The estimate accounts for jobs already waiting ahead of the batch.
+   */
+  enqueueBatch(
+    inputs: Array<{ input: string; vanityName: string }>,
+    rejected: Batch['rejected'],
+    options?: { maxAgeSeconds?: number; attribution?: RequestAttribution }
+  ): Batch {
+    const queuedAhead = this.pendingCount();
+    const jobIdsByVanity = new Map<string, string>();
+    const entries: Batch['entries'] = [];
+
+    for (const { input, vanityName } of inputs) {
+      const key = vanityName.toLowerCase();
+      let jobId = jobIdsByVanity.get(key);
+      if (!jobId) {
+        jobId = this.enqueue(vanityName, options).id;
+        jobIdsByVanity.set(key, jobId);
+      }
+      entries.push({ input, vanityName, jobId });
+    }
+
+    const usage = this.service.getHourlyUsage();
+    const estimateMs = this.service.estimateFetchTimeMs(
+      queuedAhead + jobIdsByVanity.size
+    );
+
+    const batch: Batch = {
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+      entries,
+      rejected,
+      estimate: {
+        requestsNeeded:
+          jobIdsByVanity.size * LinkedInService.REQUESTS_PER_PROFILE,
+        hourlyRemaining: Math.max(0, usage.max - usage.used),
+        estimatedCompletionAt: new Date(Date.now() + estimateMs).toISOString(),
+      },
+    };
+
+    this.store.saveBatch(batch);
+    return batch;
+  }
+
+  get(id: string): Job | null {
+    return this.store.get(id);
+  }
+
+  getBatch(id: string): Batch | null {
+    return this.store.getBatch(id);
+  }
+
+  /** Jobs queued or currently running. */
+  pendingCount(): number {
+    return this.queue.length + (this.running ? 1 : 0);
+  }
+
+  /** Position of a queued job (1 = next to run), or null if not queued. */
+  getQueuePosition(id: string): number | null {
+    const index = this.queue.indexOf(id);
+    return index === -1 ? null : index + 1;
+  }
+
+  // ── Internals ──────────────────────────────────────────────────────
+
+  private async drain(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      while (this.queue.length > 0) {
+        const job = this.store.get(this.queue.shift()!);
+        if (!job) continue;
+
+        // Jobs outlive the request that queued them; log under the job
+        await withLogContext(
+          { requestId: undefined, jobId: job.id, vanityName: job.vanityName },
+          () => this.run(job)
+        );
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async run(job: Job): Promise<void> {
+    log.info('Job started');
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    this.store.save(job);
+
+    const fetchOptions: FetchOptions = {
+      ...job.fetchOptions,
+      // Jobs persisted before attribution existed are billed as internal
+      ...(job.attribution ? { attribution: job.attribution } : {}),
+      onProgress: (event) => {
+        if (event.type === 'basicInfo') {
+          job.progress.basicInfo = true;
+        } else if (event.type === 'section') {
+          job.progress.sections[event.sectionType] = {
+            items: event.items.length,
+          };
+          job.progress.completedSections = Object.keys(
+            job.progress.sections
+          ).length;
+        }
+        this.store.save(job);
+      },
+    };
+
+    try {
+      job.result = await this.service.fetchProfileData(
+        job.vanityName,
+        fetchOptions
+      );
+      job.status = 'succeeded';
+      log.info('Job succeeded');
+    } catch (err: any) {
+      job.status = 'failed';
+      job.error = {
+        code: err instanceof ServiceError ? err.code : 'INTERNAL_ERROR',
+        message: err.message,
+        retryable: err instanceof ServiceError && err.retryable,
+      };
+      log.warn('Job failed', { error: err });
+    }
+
+    job.finishedAt = new Date().toISOString();
+    this.store.save(job);
+
+    if (job.callback) void this.deliverCallback(job);
+  }
+
+  private async deliverCallback(job: Job): Promise<void> {
+    const callback = job.callback!;
+    const body = JSON.stringify({
+      jobId: job.id,
+      vanityName: job.vanityName,
+      status: job.status,
+      data: job.result,
+      error: job.error,
+    });
+
+    while (callback.attempts < CALLBACK_MAX_ATTEMPTS) {
+      if (callback.attempts > 0) {
+        await this.sleep(CALLBACK_RETRY_BASE_MS * 2 ** (callback.attempts - 1));
+      }
+      callback.attempts++;
+
+      // The host may resolve elsewhere now than when the job was created
+      const problem = await this.checkCallbackUrl(callback.url);
+      if (problem) {
+        callback.lastError = problem;
+        log.warn('Job callback refused', { error: problem });
+        break;
+      }
+
+      try {
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+        const signature = crypto
+          .createHmac('sha256', this.callbackSecret)
+          .update(`${timestamp}.${body}`)
+          .digest('hex');
+
+        const resp = await fetch(callback.url, {
+          method: 'POST',
+          headers: {
+            'content-type': 'application/json',
+            'x-job-id': job.id,
+            'x-signature-timestamp': timestamp,
+            'x-signature': `sha256=${signature}`,
+          },
+          body,
+          redirect: 'manual',
+          signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+        });
+
+        if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+
+        callback.status = 'delivered';
+        callback.lastError = null;
+        this.store.save(job);
+        log.info('Job callback delivered', { attempts: callback.attempts });
+        return;
+      } catch (err: any) {
+        callback.lastError = err.message;
+        this.store.save(job);
+        log.warn('Job callback attempt failed', {
+          attempts: callback.attempts,
+          error: err,
+        });
+      }
+    }
+
+    callback.status = 'failed';
+    this.store.save(job);
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,79 @@
+import fs from 'fs';
+import path from 'path';
+import { log } from './logger';
+import { Batch, Job } from './types';
+
+/**
+ * File-backed job store: one JSON file per job under `dir` (and per batch
+ * under `dir/batches`), rewritten on every state change so jobs survive a
+ * process restart.
+ */
+export class JobStore {
+  private dir: string;
+  private jobs = new Map<string, Job>();
+  private batches = new Map<string, Batch>();
+
+  constructor(options?: { dir?: string }) {
+    this.dir = options?.dir || path.join(process.cwd(), '.jobs');
+  }
+
+  /** Load every persisted job and batch into memory. Returns jobs oldest first. */
+  load(): Job[] {
+    for (const job of this.readAll<Job>(this.dir)) {
+      this.jobs.set(job.id, job);
+    }
+    for (const batch of this.readAll<Batch>(path.join(this.dir, 'batches'))) {
+      this.batches.set(batch.id, batch);
+    }
+
+    return this.list();
+  }
+
+  get(id: string): Job | null {
+    return this.jobs.get(id) || null;
+  }
+
+  list(): Job[] {
+    return [...this.jobs.values()].sort((a, b) =>
+      a.createdAt.localeCompare(b.createdAt)
+    );
+  }
+
+  save(job: Job): void {
+    this.jobs.set(job.id, job);
+    this.write(this.dir, job.id, job);
+  }
+
+  getBatch(id: string): Batch | null {
+    return this.batches.get(id) || null;
+  }
+
+  saveBatch(batch: Batch): void {
+    this.batches.set(batch.id, batch);
+    this.write(path.join(this.dir, 'batches'), batch.id, batch);
+  }
+
+  private readAll<T>(dir: string): T[] {
+    if (!fs.existsSync(dir)) return [];
+
+    const records: T[] = [];
+    for (const file of fs.readdirSync(dir)) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        records.push(JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8')));
+      } catch {
+        log.warn('Skipping unreadable job file', { file });
+      }
+    }
+    return records;
+  }
+
+  private write(dir: string, id: string, record: unknown): void {
+    fs.mkdirSync(dir, { recursive: true });
+
+    // Write-then-rename so a crash never leaves a half-written record behind
+    const file = path.join(dir, `${id}.json`);
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(record, null, 2));
+    fs.renameSync(`${file}.tmp`, file);
+  }
+}
@@ -0,0 +1,194 @@
+import { formatYearMonth } from './date-parser';
+import { ProfileData } from './types';
+
+/**
+ * Subset of the JSON Resume schema (https://jsonresume.org/schema) that a
+ * LinkedIn profile can fill. Dates are ISO 8601 `YYYY-MM` or `YYYY`.
+ */
+export interface JsonResume {
+  $schema: string;
+  basics: {
+    name?: string;
+    label?: string;
+    image?: string;
+    summary?: string;
+    url?: string;
+    location?: { city?: string; region?: string };
+    profiles: Array<{ network: string; username: string; url: string }>;
+  };
+  work: Array<{
+    name?: string;
+    position?: string;
+    location?: string;
+    startDate?: string;
+    endDate?: string;
+    summary?: string;
+  }>;
+  volunteer: Array<{
+    organization?: string;
+    position?: string;
+    startDate?: string;
+    endDate?: string;
+    summary?: string;
+  }>;
+  education: Array<{
+    institution?: string;
+    area?: string;
+    studyType?: string;
+    startDate?: string;
+    endDate?: string;
+  }>;
+  certificates: Array<{ name?: string; issuer?: string; date?: string }>;
+  awards: Array<{
+    title?: string;
+    awarder?: string;
+    date?: string;
+    summary?: string;
+  }>;
+  publications: Array<{
+    name?: string;
+    publisher?: string;
+    releaseDate?: string;
+    summary?: string;
+  }>;
+  skills: Array<{ name?: string }>;
+  projects: Array<{
+    name?: string;
+    description?: string;
+    startDate?: string;
+    endDate?: string;
+  }>;
+  languages: Array<{ language?: string; fluency?: string }>;
+  references: Array<{ name?: string; reference?: string }>;
+  meta: { lastModified: string };
+}
+
+/**
+ * Map a fetched profile onto the JSON Resume schema. Fields LinkedIn did
+ * not provide are omitted rather than set to null, as the schema expects.
+ */
+export function toJsonResume(profile: ProfileData): JsonResume {
+  const { basicInfo } = profile;
+  const name = [basicInfo.firstName, basicInfo.lastName]
+    .filter(Boolean)
+    .join(' ');
+  const [city, ...region] = (basicInfo.location || '').split(', ');
+  const profileUrl = basicInfo.publicIdentifier
+    ? `https://www.linkedin.com/in/${basicInfo.publicIdentifier}/`
+    : undefined;
+
+  return {
+    $schema:
+      'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json',
+    basics: compact({
+      name: name || undefined,
+      label: basicInfo.headline,
+      image: basicInfo.profilePicture,
+      summary: basicInfo.summary,
+      url: profileUrl,
+      location: city
+        ? compact({ city, region: region.join(', ') || undefined })
+        : undefined,
+      profiles: profileUrl
+        ? [
+            {
+              network: 'LinkedIn',
+              username: basicInfo.publicIdentifier!,
+              url: profileUrl,
+            },
+          ]
+        : [],
+    }),
+    work: profile.experience.map((exp) =>
+      compact({
+        name: exp.company,
+        position: exp.title,
+        location: exp.location,
+        startDate: formatYearMonth(exp.start),
+        endDate: formatYearMonth(exp.end),
+        summary: exp.description,
+      })
+    ),
+    volunteer: profile.volunteeringExperiences.map((vol) =>
+      compact({
+        organization: vol.organization,
+        position: vol.role,
+        startDate: formatYearMonth(vol.start),
+        endDate: formatYearMonth(vol.end),
+        summary: vol.description,
+      })
+    ),
+    education: profile.education.map((edu) =>
+      compact({
+        institution: edu.schoolName,
+        ...splitDegree(edu.degree),
+        startDate: formatYearMonth(edu.start),
+        endDate: formatYearMonth(edu.end),
+      })
+    ),
+    certificates: profile.certifications.map((cert) =>
+      compact({
+        name: cert.name,
+        issuer: cert.organization,
+        date: formatYearMonth(cert.start),
+      })
+    ),
+    awards: profile.honors.map((honor) =>
+      compact({
+        title: honor.title,
+        awarder: honor.issuer,
+        date: formatYearMonth(honor.start),
+        summary: honor.description,
+      })
+    ),
+    publications: profile.publications.map((publication) =>
+      compact({
+        name: publication.title,
+        publisher: publication.publisher,
+        releaseDate: formatYearMonth(publication.start),
+        summary: publication.description,
+      })
+    ),
+    skills: profile.skills.map((skill) => compact({ name: skill.name })),
+    projects: profile.projects.map((project) =>
+      compact({
+        name: project.title,
+        description: project.description,
+        startDate: formatYearMonth(project.start),
+        endDate: formatYearMonth(project.end),
+      })
+    ),
+    languages: profile.languages.map((language) =>
+      compact({ language: language.name, fluency: language.proficiency })
+    ),
+    references: profile.recommendations.received.map((recommendation) =>
+      compact({ name: recommendation.name, reference: recommendation.text })
+    ),
+    meta: { lastModified: profile.metadata.fetchedAt },
+  };
+}
+
+/** "Bachelor of Technology - BTech, Computer Science" → studyType + area. */
+function splitDegree(degree: string | null): {
+  studyType?: string;
+  area?: string;
+} {
+  if (!degree) return {};
+  const comma = degree.lastIndexOf(', ');
+  if (comma === -1) return { studyType: degree };
+  return {
+    studyType: degree.slice(0, comma),
+    area: degree.slice(comma + 2),
+  };
+}
+
+/** Drop null/undefined fields so they are absent from the output. */
+function compact<T extends Record<string, unknown>>(
+  obj: T
+): { [K in keyof T]: Exclude<T[K], null> } {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(obj)) {
+    if (value !== null && value !== undefined) out[key] = value;
+  }
+  return out as { [K in keyof T]: Exclude<T[K], null> };
+}
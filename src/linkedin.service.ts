@@ -1,8 +1,48 @@
-import fs from 'fs';
 import path from 'path';
-import { BrowserManager } from './browser-manager';
+import { CredentialStore, FileCredentialStore } from './credential-stores';
+import {
+  ProfileNotFoundError,
+  SessionExpiredError,
+  upstreamError,
+  VerificationRequiredError,
+} from './errors';
+import { log } from './logger';
+import { Metrics } from './metrics';
+import { FULL_PROFILE_KEY, ProfileCache } from './profile-cache';
 import { RateLimiter } from './rate-limiter';
-import { LinkedInCredentials, ProfileData } from './types';
+import { SessionMonitor } from './session-monitor';
+import { SnapshotStore } from './snapshot-store';
+import { UsageLedger } from './usage-ledger';
+import {
+  BrowserTransport,
+  SESSION_PROBE_PATH,
+  VoyagerTransport,
+} from './transports';
+import {
+  BrowserApiResult,
+  CacheStatus,
+  FetchOptions,
+  LinkedInCredentials,
+  RecommendationDirection,
+  RecommendationItem,
+  Recommendations,
+  RequestAttribution,
+  ProfileData,
+  ProfilePart,
+  ProfileSelection,
+  SectionItem,
+  SectionItemMap,
+  SectionPaging,
+  SectionResult,
+  SectionType,
+  UpstreamRequestKind,
+} from './types';
+import {
+  extractBasicInfo,
+  extractComponentData,
+  extractPaging,
+  extractRecommendations,
+} from './voyager-parser';
 
 const GRAPHQL_QUERY_ID =
   'voyagerIdentityDashProfileComponents.7e354263db82a0ad715b25a6346abade';
@@ -10,19 +50,207 @@ const GRAPHQL_QUERY_ID =
 const URN_QUERY_ID =
   'voyagerIdentityDashProfiles.b5c27c04968c409fc0ed3546575b9b7a';
 
-const ALL_SECTIONS: [string, string][] = [
+export const ALL_SECTIONS: [SectionType, string][] = [
   ['experience', 'Experience'],
   ['education', 'Education'],
   ['skills', 'Skills'],
   ['certifications', 'Certifications'],
   ['projects', 'Projects'],
   ['volunteering-experiences', 'Volunteering'],
+  ['languages', 'Languages'],
+  ['honors', 'Honors & awards'],
+  ['publications', 'Publications'],
+  ['courses', 'Courses'],
+  ['patents', 'Patents'],
+  ['test-scores', 'Test scores'],
+  ['organizations', 'Organizations'],
+  ['recommendations', 'Recommendations'],
 ];
 
+/**
+ * Sections a full profile fetch covers unless others are selected. The rest
+ * are empty for most members, so they only cost requests when asked for.
+ */
+export const DEFAULT_SECTIONS: SectionType[] = [
+  'experience',
+  'education',
+  'skills',
+  'certifications',
+  'projects',
+  'volunteering-experiences',
+];
+
+/**
+ * ProfileData field holding each section's items. Recommendations are
+ * split by direction instead (see profileSectionItems).
+ */
+export const PROFILE_FIELDS: Record<
+  Exclude<SectionType, 'recommendations'>,
+  Exclude<keyof ProfileData, 'metadata' | 'basicInfo' | 'recommendations'>
+> = {
+  experience: 'experience',
+  education: 'education',
+  skills: 'skills',
+  certifications: 'certifications',
+  projects: 'projects',
+  'volunteering-experiences': 'volunteeringExperiences',
+  languages: 'languages',
+  honors: 'honors',
+  publications: 'publications',
+  courses: 'courses',
+  patents: 'patents',
+  'test-scores': 'testScores',
+  organizations: 'organizations',
+};
+
+/** Billed for upstream requests made without a calling client. */
+const INTERNAL_ATTRIBUTION: RequestAttribution = {
+  clientId: 'internal',
+  clientName: 'internal',
+  endpoint: 'internal',
+};
+
+/** Whom to bill an upstream request to, and as what. */
+interface UpstreamUsage {
+  attribution: RequestAttribution;
+  kind: UpstreamRequestKind;
+}
+
+interface SectionUsage extends UpstreamUsage {
+  kind: Extract<UpstreamRequestKind, 'section' | 'section-retry'>;
+}
+
+/**
+ * A fetched section. `failure` is the upstream request for it that failed,
+ * if any; its items may then be missing rather than genuinely absent.
+ */
+interface FetchedSection<K extends SectionType> {
+  section: Omit<SectionResult<K>, 'cache'>;
+  failure: BrowserApiResult | null;
+}
+
+/** Recommendations tabs, in the order LinkedIn shows them. */
+const RECOMMENDATION_TABS: [RecommendationDirection, number][] = [
+  ['received', 0],
+  ['given', 1],
+];
+
+export function groupRecommendations(
+  items: RecommendationItem[]
+): Recommendations {
+  return {
+    received: items.filter((item) => item.direction === 'received'),
+    given: items.filter((item) => item.direction === 'given'),
+  };
+}
+
+/** A section's items as stored on a profile. */
+export function profileSectionItems(
+  profile: ProfileData,
+  sectionType: SectionType
+): SectionItem[] {
+  if (sectionType === 'recommendations') {
+    return [...profile.recommendations.received, ...profile.recommendations.given];
+  }
+  return profile[PROFILE_FIELDS[sectionType]];
+}
+
+const EMPTY_BASIC_INFO: ProfileData['basicInfo'] = {
+  firstName: null,
+  lastName: null,
+  publicIdentifier: null,
+  headline: null,
+  summary: null,
+  location: null,
+  profilePicture: null,
+  premium: false,
+};
+
+/** Dedupe and put the selected sections in `ALL_SECTIONS` order. */
+function normalizeSelection(selection?: ProfileSelection): ProfileSelection {
+  if (!selection) {
+    return { basicInfo: true, sections: [...DEFAULT_SECTIONS] };
+  }
+  return {
+    basicInfo: selection.basicInfo,
+    sections: ALL_SECTIONS.map(([type]) => type).filter((type) =>
+      selection.sections.includes(type)
+    ),
+  };
+}
+
+function isDefaultSelection(selection: ProfileSelection): boolean {
+  return (
+    selection.basicInfo &&
+    selection.sections.length === DEFAULT_SECTIONS.length &&
+    selection.sections.every((type) => DEFAULT_SECTIONS.includes(type))
+  );
+}
+
+function skippedParts(selection: ProfileSelection): ProfilePart[] {
+  const skipped: ProfilePart[] = selection.basicInfo ? [] : ['basicInfo'];
+  for (const [type] of ALL_SECTIONS) {
+    if (!selection.sections.includes(type)) skipped.push(type);
+  }
+  return skipped;
+}
+
+/**
+ * Cache key for a selection: the full profile key for the default one, or
+ * a suffixed key such as `profile.experience.education.no-basic`.
+ */
+function selectionCacheKey(selection: ProfileSelection): string {
+  if (isDefaultSelection(selection)) return FULL_PROFILE_KEY;
+  return [
+    FULL_PROFILE_KEY,
+    ...selection.sections,
+    ...(selection.basicInfo ? [] : ['no-basic']),
+  ].join('.');
+}
+
+/** Cut a full profile down to a selection, emptying the skipped parts. */
+function projectProfile(
+  profile: ProfileData,
+  selection: ProfileSelection
+): ProfileData {
+  const projected: ProfileData = {
+    ...profile,
+    metadata: {
+      ...profile.metadata,
+      sections: {},
+      skipped: skippedParts(selection),
+      emptySections: profile.metadata.emptySections.filter((type) =>
+        selection.sections.includes(type)
+      ),
+    },
+    basicInfo: selection.basicInfo ? profile.basicInfo : EMPTY_BASIC_INFO,
+  };
+
+  for (const [type] of ALL_SECTIONS) {
+    if (selection.sections.includes(type)) {
+      const paging = profile.metadata.sections[type];
+      if (paging) projected.metadata.sections[type] = paging;
+    } else {
+      if (type === 'recommendations') {
+        projected.recommendations = { received: [], given: [] };
+      } else {
+        projected[PROFILE_FIELDS[type]] = [];
+      }
+    }
+  }
+
+  return projected;
+}
+
 export class LinkedInService {
-  private browser: BrowserManager;
+  private transport: VoyagerTransport;
   private rateLimiter: RateLimiter;
-  private credentialsPath: string;
+  private profileCache: ProfileCache;
+  private snapshotStore: SnapshotStore;
+  private usageLedger: UsageLedger;
+  private metrics: Metrics;
+  private sessionMonitor: SessionMonitor;
+  private credentialStore: CredentialStore;
   private ambientTrafficEnabled: boolean;
   private initialized = false;
 
@@ -36,42 +264,52 @@ export class LinkedInService {
   private consecutiveEmptySections = 0;
   private static readonly SOFT_LIMIT_THRESHOLD = 2;
   private static readonly MAX_SESSION_REFRESHES_PER_REQUEST = 2;
+  private static readonly MAX_SECTION_PAGES = 10;
+
+  /** Upstream calls an uncached full fetch costs: URN + basic profile + sections. */
+  static readonly REQUESTS_PER_PROFILE = 2 + DEFAULT_SECTIONS.length;
 
   constructor(options?: {
-    credentialsPath?: string;
+    transport?: VoyagerTransport;
+    profileCache?: ProfileCache;
+    snapshotStore?: SnapshotStore;
+    usageLedger?: UsageLedger;
+    metrics?: Metrics;
+    sessionMonitor?: SessionMonitor;
+    credentialStore?: CredentialStore;
     ambientTraffic?: boolean;
     linkedInEmail?: string;
     linkedInPassword?: string;
   }) {
-    this.browser = new BrowserManager();
+    this.transport = options?.transport ?? new BrowserTransport();
     this.rateLimiter = new RateLimiter();
-    this.credentialsPath =
-      options?.credentialsPath ||
-      path.join(process.cwd(), 'linkedin-credentials.json');
+    this.profileCache = options?.profileCache ?? new ProfileCache();
+    this.snapshotStore = options?.snapshotStore ?? new SnapshotStore();
+    this.usageLedger = options?.usageLedger ?? new UsageLedger();
+    this.metrics = options?.metrics ?? new Metrics();
+    this.sessionMonitor =
+      options?.sessionMonitor ??
+      new SessionMonitor({ transport: this.transport });
+    this.credentialStore =
+      options?.credentialStore ??
+      new FileCredentialStore({
+        file: path.join(process.cwd(), 'linkedin-credentials.json'),
+      });
     this.ambientTrafficEnabled = options?.ambientTraffic ?? false;
     this.linkedInEmail = options?.linkedInEmail || process.env.LINKEDIN_EMAIL || '';
     this.linkedInPassword = options?.linkedInPassword || process.env.LINKEDIN_PASSWORD || '';
   }
 
   /**
-   * Initialize the Playwright browser and establish a LinkedIn session.
+   * Initialize the transport and establish a LinkedIn session.
    * Must be called once before any API operations.
    */
   async init(): Promise<void> {
     if (this.initialized) return;
 
-    const credentials = this.loadCredentials();
-    const cookies = Object.entries(credentials.cookies).map(([name, value]) => ({
-      name,
-      value: String(value),
-      domain: '.linkedin.com',
-      path: '/',
-    }));
-
-    await this.browser.init({
-      cookies,
-      headless: process.env.HEADLESS !== 'false',
-    });
+    const credentials = await this.credentialStore.load();
+    await this.transport.init(credentials);
+    this.sessionMonitor.sessionStarted();
 
     this.initialized = true;
   }
@@ -80,32 +318,35 @@ export class LinkedInService {
    * Resolve the profile URN for a vanity name.
    * Uses in-memory cache, then credentials file, then LinkedIn API.
    */
-  async resolveProfileUrn(vanityName: string): Promise<string> {
+  async resolveProfileUrn(
+    vanityName: string,
+    attribution: RequestAttribution = INTERNAL_ATTRIBUTION
+  ): Promise<string> {
     // 1. In-memory cache
     if (this.urnCache.has(vanityName)) {
       return this.urnCache.get(vanityName)!;
     }
 
-    // 2. Credentials file (if same vanity)
-    const credentials = this.loadCredentials();
+    // 2. Stored credentials (if same vanity)
+    const credentials = await this.credentialStore.load();
     if (credentials.vanityName === vanityName && credentials.profileUrn) {
       this.urnCache.set(vanityName, credentials.profileUrn);
       return credentials.profileUrn;
     }
 
     // 3. Fetch from LinkedIn
-    console.log(`🔍 Extracting profile URN for: ${vanityName}`);
+    log.info('Resolving profile URN');
     const url =
-      `https://www.linkedin.com/voyager/api/graphql?includeWebMetadata=true` +
+      `/voyager/api/graphql?includeWebMetadata=true` +
       `&variables=(memberIdentity:${vanityName})&queryId=${URN_QUERY_ID}`;
 
-    this.rateLimiter.recordRequest();
-    const result = await this.browser.makeApiCall(url);
+    const result = await this.upstreamRequest(url, 'urn', {
+      attribution,
+      kind: 'urn-lookup',
+    });
 
     if (result.error) {
-      throw new Error(
-        `Failed to extract URN: HTTP ${result.status} ${result.statusText || ''}. Credentials may be expired.`
-      );
+      throw upstreamError(result, 'Failed to extract URN');
     }
 
     const data =
@@ -124,24 +365,68 @@ export class LinkedInService {
     }
 
     if (!profileUrn) {
-      throw new Error(`Could not find profile for vanity name: ${vanityName}`);
+      throw new ProfileNotFoundError(vanityName);
     }
 
-    console.log(`   ✓ Found URN: ${profileUrn}`);
+    log.info('Resolved profile URN', { profileUrn });
 
-    // Persist to cache + file
+    // Persist to cache + credential store
     this.urnCache.set(vanityName, profileUrn);
-    credentials.profileUrn = profileUrn;
-    credentials.vanityName = vanityName;
-    this.saveCredentials(credentials);
+    await this.credentialStore.update((stored) => {
+      stored.profileUrn = profileUrn;
+      stored.vanityName = vanityName;
+    });
 
     return profileUrn;
   }
 
   /**
-   * Fetch complete profile data: basic info + all sections.
+   * Fetch profile data: basic info + all sections, or the subset named by
+   * `options.selection`. Served from the profile cache when a fresh enough
+   * copy exists; a cached full profile also serves any subset of it.
    */
-  async fetchProfileData(vanityName: string): Promise<ProfileData> {
+  async fetchProfileData(
+    vanityName: string,
+    options?: FetchOptions
+  ): Promise<ProfileData> {
+    const selection = normalizeSelection(options?.selection);
+    const cacheKey = selectionCacheKey(selection);
+    const attribution = options?.attribution ?? INTERNAL_ATTRIBUTION;
+
+    const cached = this.getCachedProfile(
+      vanityName,
+      selection,
+      options?.maxAgeSeconds
+    );
+    this.metrics.cacheLookups.inc({
+      kind: 'profile',
+      result: cached ? 'hit' : 'miss',
+    });
+    if (cached) {
+      log.info('Profile served from cache', {
+        ageSeconds: cached.status.ageSeconds,
+      });
+      const onProgress = options?.onProgress;
+      if (onProgress) {
+        if (selection.basicInfo) {
+          onProgress({ type: 'basicInfo', basicInfo: cached.data.basicInfo });
+        }
+        for (const sectionType of selection.sections) {
+          const items = profileSectionItems(cached.data, sectionType);
+          const paging = cached.data.metadata.sections[sectionType] ?? {
+            totalCount: items.length,
+            returnedCount: items.length,
+            pages: 1,
+          };
+          onProgress({ type: 'section', sectionType, items, paging });
+        }
+      }
+      return {
+        ...cached.data,
+        metadata: { ...cached.data.metadata, cache: cached.status },
+      };
+    }
+
     await this.ensureInitialized();
     await this.rateLimiter.waitForProfileSlot();
 
@@ -149,86 +434,148 @@ export class LinkedInService {
       await this.generateAmbientTraffic();
     }
 
-    const profileUrn = await this.resolveProfileUrn(vanityName);
+    const profileUrn = await this.resolveProfileUrn(vanityName, attribution);
 
-    console.log(`\n📡 Fetching profile data for: ${vanityName}`);
-    console.log(`   Profile URN: ${profileUrn}\n`);
+    const skipped = skippedParts(selection);
+    log.info('Fetching profile data', { profileUrn, skipped });
 
     // Basic profile (REST API)
-    console.log('   → Fetching basic profile...');
-    this.rateLimiter.recordRequest();
-    const basicResult = await this.browser.makeApiCall(
-      `https://www.linkedin.com/voyager/api/identity/dash/profiles/${encodeURIComponent(
-        profileUrn
-      )}?decorationId=com.linkedin.voyager.dash.deco.identity.profile.FullProfile-76`
-    );
-
-    if (basicResult.error) {
-      throw new Error(
-        `Failed to fetch basic profile: HTTP ${basicResult.status}. Session may be expired.`
+    let basicInfo = EMPTY_BASIC_INFO;
+    if (selection.basicInfo) {
+      const basicResult = await this.upstreamRequest(
+        `/voyager/api/identity/dash/profiles/${encodeURIComponent(
+          profileUrn
+        )}?decorationId=com.linkedin.voyager.dash.deco.identity.profile.FullProfile-76`,
+        'basic-profile',
+        { attribution, kind: 'basic-profile' }
       );
+
+      if (basicResult.error) {
+        throw upstreamError(basicResult, 'Failed to fetch basic profile');
+      }
+      log.info('Basic profile loaded');
+
+      basicInfo = extractBasicInfo(basicResult.data);
+      options?.onProgress?.({ type: 'basicInfo', basicInfo });
     }
-    console.log('     ✓ Basic profile loaded');
 
     // Sections (GraphQL section API, sequentially with soft-limit detection)
-    const sectionResults: Record<string, any[]> = {};
+    const sectionResults: Partial<{
+      [K in SectionType]: SectionItemMap[K][];
+    }> = {};
+    const sectionPaging: Partial<Record<SectionType, SectionPaging>> = {};
+    const incompleteSections: SectionType[] = [];
     this.consecutiveEmptySections = 0;
     let sessionRefreshesThisRequest = 0;
 
     for (const [sectionType, label] of ALL_SECTIONS) {
-      await this.rateLimiter.waitForSectionSlot();
-      console.log(`   → Fetching ${label}...`);
+      if (!selection.sections.includes(sectionType)) continue;
 
-      this.rateLimiter.recordRequest();
-      let sectionData = await this.fetchSectionRaw(profileUrn, sectionType);
-      let items = this.extractComponentData(sectionData, sectionType);
+      await this.rateLimiter.waitForSectionSlot();
+      let { section, failure } = await this.fetchSection(
+        profileUrn,
+        sectionType,
+        { attribution, kind: 'section' }
+      );
+      let items: SectionItem[] = section.items;
 
-      // Soft rate limit detection
-      if (items.length === 0) {
+      // Soft rate limit detection. The optional sections are empty for most
+      // members, so only the default ones count towards it.
+      if (items.length === 0 && DEFAULT_SECTIONS.includes(sectionType)) {
         this.consecutiveEmptySections++;
 
+        if (this.consecutiveEmptySections >= LinkedInService.SOFT_LIMIT_THRESHOLD) {
+          this.metrics.softLimits.inc();
+          options?.onProgress?.({
+            type: 'notice',
+            code: 'soft-limit',
+            message: `${this.consecutiveEmptySections} consecutive empty sections — possible soft rate limit`,
+          });
+        }
+
         if (
           this.consecutiveEmptySections >= LinkedInService.SOFT_LIMIT_THRESHOLD &&
           sessionRefreshesThisRequest < LinkedInService.MAX_SESSION_REFRESHES_PER_REQUEST &&
+          this.transport.refreshSessionViaLogin &&
           this.linkedInEmail &&
           this.linkedInPassword
         ) {
-          console.log(
-            `     ⚠ Soft rate limit detected (${this.consecutiveEmptySections} consecutive empty). Refreshing session via login...`
-          );
+          log.warn('Soft rate limit detected, refreshing session via login', {
+            section: sectionType,
+            consecutiveEmptySections: this.consecutiveEmptySections,
+          });
 
           try {
             await this.refreshSession();
             sessionRefreshesThisRequest++;
             this.consecutiveEmptySections = 0;
+            options?.onProgress?.({
+              type: 'notice',
+              code: 'session-refreshed',
+              message: `Session refreshed; retrying ${label}`,
+            });
 
             // Retry this section with the fresh session
-            console.log(`     ↻ Retrying ${label} with new session...`);
-            this.rateLimiter.recordRequest();
-            sectionData = await this.fetchSectionRaw(profileUrn, sectionType);
-            items = this.extractComponentData(sectionData, sectionType);
-
-            if (items.length > 0) {
-              console.log(`     ✓ Retry succeeded: ${items.length} items`);
-            } else {
-              console.log(`     ⚠ Retry still empty after session refresh`);
-            }
+            ({ section, failure } = await this.fetchSection(
+              profileUrn,
+              sectionType,
+              { attribution, kind: 'section-retry' }
+            ));
+            items = section.items;
+
+            log.info(
+              items.length > 0
+                ? 'Section retry succeeded after session refresh'
+                : 'Section retry still empty after session refresh',
+              { section: sectionType, items: items.length }
+            );
           } catch (refreshErr: any) {
-            console.log(`     ✗ Session refresh failed: ${refreshErr.message}`);
-            console.log(`     ⏳ Falling back to 60s cooldown...`);
+            log.warn('Session refresh failed, cooling down for 60s', {
+              error: refreshErr,
+            });
+            options?.onProgress?.({
+              type: 'notice',
+              code: 'session-refresh-failed',
+              message: `Session refresh failed: ${refreshErr.message}`,
+            });
+            options?.onProgress?.({
+              type: 'notice',
+              code: 'cooldown',
+              message: 'Cooling down for about 60s before the next section',
+            });
             await this.sleep(60_000, 65_000);
           }
         }
-      } else {
+      } else if (items.length > 0) {
         this.consecutiveEmptySections = 0;
       }
 
-      sectionResults[sectionType] = items;
-      console.log(`     ✓ ${items.length} items`);
-    }
+      (sectionResults as Record<SectionType, SectionItem[]>)[sectionType] =
+        items;
+      sectionPaging[sectionType] = section.paging;
 
-    console.log('   ✓ All sections fetched\n');
+      // A failed or soft-limited section would be served empty for the TTL
+      const softLimited =
+        items.length === 0 &&
+        this.consecutiveEmptySections >= LinkedInService.SOFT_LIMIT_THRESHOLD;
+      if (failure || softLimited) {
+        incompleteSections.push(sectionType);
+      } else {
+        this.profileCache.set(vanityName, sectionType, section);
+      }
+      options?.onProgress?.({
+        type: 'section',
+        sectionType,
+        items,
+        paging: section.paging,
+      });
+      log.info('Fetched section', {
+        section: sectionType,
+        items: items.length,
+      });
+    }
 
+    // Only the default sections are expected to have items
     const totalSections =
       (sectionResults['experience']?.length || 0) +
       (sectionResults['education']?.length || 0) +
@@ -237,17 +584,36 @@ export class LinkedInService {
       (sectionResults['certifications']?.length || 0) +
       (sectionResults['volunteering-experiences']?.length || 0);
 
+    const defaultSelected = selection.sections.some((type) =>
+      DEFAULT_SECTIONS.includes(type)
+    );
+    const softLimitSuspected = defaultSelected && totalSections === 0;
+
+    // Under a suspected soft limit no empty section can be trusted
+    const emptySections = selection.sections.filter(
+      (type) => sectionResults[type]?.length === 0
+    );
+    if (softLimitSuspected) {
+      for (const type of emptySections) {
+        if (!incompleteSections.includes(type)) incompleteSections.push(type);
+      }
+    }
+
     const result: ProfileData = {
       metadata: {
         fetchedAt: new Date().toISOString(),
         profileUrn,
         vanityName,
         apiVersion: 'v2-playwright',
-        ...(totalSections === 0
+        sections: sectionPaging,
+        skipped,
+        emptySections,
+        incompleteSections,
+        ...(softLimitSuspected
           ? { warning: 'All sections returned empty — possible soft rate limit' }
           : {}),
-      } as any,
-      basicInfo: this.extractBasicInfo(basicResult.data),
+      },
+      basicInfo,
       experience: sectionResults['experience'] || [],
       education: sectionResults['education'] || [],
       skills: sectionResults['skills'] || [],
@@ -255,366 +621,472 @@ export class LinkedInService {
       certifications: sectionResults['certifications'] || [],
       volunteeringExperiences:
         sectionResults['volunteering-experiences'] || [],
+      languages: sectionResults['languages'] || [],
+      honors: sectionResults['honors'] || [],
+      publications: sectionResults['publications'] || [],
+      courses: sectionResults['courses'] || [],
+      patents: sectionResults['patents'] || [],
+      testScores: sectionResults['test-scores'] || [],
+      organizations: sectionResults['organizations'] || [],
+      recommendations: groupRecommendations(
+        sectionResults['recommendations'] || []
+      ),
     };
 
+    const snapshot = this.snapshotStore.save(result);
+    log.info('Snapshot stored', { snapshotId: snapshot.id });
+    if (incompleteSections.length === 0) {
+      result.metadata.cache = this.profileCache.set(
+        vanityName,
+        cacheKey,
+        result
+      );
+    } else {
+      log.warn('Profile not cached: sections failed or were soft-limited', {
+        incompleteSections,
+      });
+      result.metadata.cache = this.profileCache.freshStatus(result);
+    }
+
     this.logProfileSummary(result);
     return result;
   }
 
   /**
    * Fetch a single section for a profile.
+   * Served from the profile cache when a fresh enough copy exists.
    */
-  async fetchSingleSection(
+  async fetchSingleSection<K extends SectionType>(
     vanityName: string,
-    sectionType: string
-  ): Promise<any[]> {
+    sectionType: K,
+    options?: FetchOptions
+  ): Promise<SectionResult<K>> {
+    const cached = this.profileCache.get<Omit<SectionResult<K>, 'cache'>>(
+      vanityName,
+      sectionType,
+      options?.maxAgeSeconds
+    );
+    this.metrics.cacheLookups.inc({
+      kind: 'section',
+      result: cached ? 'hit' : 'miss',
+    });
+    if (cached) {
+      log.info('Section served from cache', {
+        section: sectionType,
+        ageSeconds: cached.status.ageSeconds,
+      });
+      return { ...cached.data, cache: cached.status };
+    }
+
     await this.ensureInitialized();
 
-    const profileUrn = await this.resolveProfileUrn(vanityName);
+    const attribution = options?.attribution ?? INTERNAL_ATTRIBUTION;
+    const profileUrn = await this.resolveProfileUrn(vanityName, attribution);
 
-    console.log(`   → Fetching section: ${sectionType}...`);
-    this.rateLimiter.recordRequest();
-    const data = await this.fetchSectionRaw(profileUrn, sectionType);
-    const items = this.extractComponentData(data, sectionType);
-    console.log(`   ✓ Got ${items.length} items\n`);
-    return items;
+    const { section, failure } = await this.fetchSection(
+      profileUrn,
+      sectionType,
+      { attribution, kind: 'section' }
+    );
+    // Unlike a full profile, there is nothing else to return
+    if (failure) {
+      throw upstreamError(failure, `Failed to fetch ${sectionType} section`);
+    }
+    log.info('Fetched section', {
+      section: sectionType,
+      items: section.items.length,
+    });
+
+    const cache = this.profileCache.set(vanityName, sectionType, section);
+    return { ...section, cache };
   }
 
   getHourlyUsage() {
     return {
       ...this.rateLimiter.getHourlyUsage(),
-      sessionRefreshes: this.browser.getSessionRefreshCount(),
+      sessionRefreshes: this.transport.getSessionRefreshCount?.() ?? 0,
     };
   }
 
-  async shutdown(): Promise<void> {
-    await this.browser.close();
-    this.initialized = false;
+  /**
+   * Estimated time to fetch `profiles` full profiles under the rate limiter.
+   */
+  estimateFetchTimeMs(profiles: number): number {
+    return this.rateLimiter.estimateDurationMs(profiles, {
+      requestsPerProfile: LinkedInService.REQUESTS_PER_PROFILE,
+      sectionsPerProfile: DEFAULT_SECTIONS.length,
+    });
   }
 
-  // ── Private: Session refresh ─────────────────────────────────────────
-
-  private async refreshSession(): Promise<void> {
-    const newCreds = await this.browser.refreshSessionViaLogin(
-      this.linkedInEmail,
-      this.linkedInPassword
+  /**
+   * Probe an unhealthy session so it can recover (see SessionMonitor).
+   * The probe counts against the hourly budget and the usage ledger like
+   * any other call, and is skipped once that budget is spent.
+   */
+  async recheckSession(): Promise<void> {
+    const { used, max } = this.rateLimiter.getHourlyUsage();
+    if (used >= max) return;
+
+    await this.sessionMonitor.recheck(() =>
+      this.upstreamRequest(SESSION_PROBE_PATH, 'session-probe', {
+        attribution: INTERNAL_ATTRIBUTION,
+        kind: 'session-probe',
+      })
     );
-
-    // Persist the fresh cookies to the credentials file
-    const credentials = this.loadCredentials();
-    credentials.csrfToken = newCreds.csrfToken;
-    credentials.cookies = newCreds.cookies;
-    this.saveCredentials(credentials);
-
-    console.log('   ✓ Credentials file updated with fresh session\n');
   }
 
-  // ── Private: API calls ──────────────────────────────────────────────
-
-  private async fetchSectionRaw(
-    profileUrn: string,
-    sectionType: string
-  ): Promise<any> {
-    const url =
-      `https://www.linkedin.com/voyager/api/graphql?includeWebMetadata=true` +
-      `&variables=(profileUrn:${encodeURIComponent(profileUrn)},sectionType:${sectionType},locale:en_US)` +
-      `&queryId=${GRAPHQL_QUERY_ID}`;
-
-    const result = await this.browser.makeApiCall(url);
+  /** Whether the transport can take new credentials without a restart. */
+  canReplaceCredentials(): boolean {
+    return !!this.transport.swapSession;
+  }
 
-    if (result.error) {
-      console.log(
-        `   ⚠ ${sectionType} section failed: HTTP ${result.status}`
+  /**
+   * Switch to a new session at runtime. The transport probes it first and
+   * keeps the current session if LinkedIn rejects it; only an accepted
+   * session is persisted. Also recovers a service whose startup failed.
+   */
+  async replaceCredentials(credentials: LinkedInCredentials): Promise<void> {
+    if (!this.transport.swapSession) {
+      throw new Error(
+        `The ${this.transport.name} transport cannot swap sessions`
       );
-      return { included: [] };
     }
 
-    return result.data || { included: [] };
-  }
+    try {
+      await this.transport.swapSession(credentials);
+      this.sessionMonitor.sessionStarted();
+      this.metrics.credentialSwaps.inc({ outcome: 'success' });
+    } catch (err) {
+      this.metrics.credentialSwaps.inc({
+        outcome: err instanceof SessionExpiredError ? 'rejected' : 'failure',
+      });
+      throw err;
+    }
 
-  // ── Private: Ambient traffic ────────────────────────────────────────
+    this.initialized = true;
+    this.consecutiveEmptySections = 0;
+    await this.credentialStore.save(credentials);
 
-  private async generateAmbientTraffic(): Promise<void> {
-    const actions = [
-      async () => {
-        console.log('   🌐 Ambient: visiting feed...');
-        await this.browser.navigateTo('https://www.linkedin.com/feed/');
-        await this.sleep(2000, 4000);
-      },
-      async () => {
-        console.log('   🌐 Ambient: checking notifications...');
-        await this.browser.navigateTo(
-          'https://www.linkedin.com/notifications/'
-        );
-        await this.sleep(1500, 3000);
-      },
-      async () => {
-        console.log('   🌐 Ambient: scrolling...');
-        await this.browser.scrollPage();
-        await this.sleep(1000, 2000);
-      },
-    ];
+    log.info('Credentials replaced', {
+      credentialStore: this.credentialStore.name,
+      cookieCount: Object.keys(credentials.cookies).length,
+    });
+  }
 
-    const action = actions[Math.floor(Math.random() * actions.length)];
-    await action();
+  async shutdown(): Promise<void> {
+    await this.transport.close();
+    this.initialized = false;
   }
 
-  // ── Private: Data extraction ────────────────────────────────────────
+  // ── Private: Cache ───────────────────────────────────────────────────
 
-  private extractBasicInfo(response: any): ProfileData['basicInfo'] {
-    const data = response?.data || response;
-    return {
-      firstName: data.firstName || 'N/A',
-      lastName: data.lastName || 'N/A',
-      publicIdentifier: data.publicIdentifier || 'N/A',
-      headline: data.headline || 'N/A',
-      summary: data.summary || null,
-      location: data.geoLocationName || data.locationName || null,
-      profilePicture:
-        data.pictureUrls?.[0] ||
-        data.profilePictureDisplayImage?.rootUrl ||
-        null,
-      premium: data.premium || false,
-    };
+  /**
+   * Cached profile for a selection: its own entry, or a fresh enough full
+   * profile cut down to the selection. The cut-down copy gets its own ETag
+   * so it never validates against the full representation.
+   */
+  private getCachedProfile(
+    vanityName: string,
+    selection: ProfileSelection,
+    maxAgeSeconds?: number
+  ): { data: ProfileData; status: CacheStatus } | null {
+    const full = this.profileCache.get<ProfileData>(
+      vanityName,
+      FULL_PROFILE_KEY,
+      maxAgeSeconds
+    );
+    if (isDefaultSelection(selection)) return full;
+
+    const cacheKey = selectionCacheKey(selection);
+    if (
+      full &&
+      selection.sections.every((type) => DEFAULT_SECTIONS.includes(type))
+    ) {
+      return {
+        data: projectProfile(full.data, selection),
+        status: {
+          ...full.status,
+          etag: full.status.etag.replace(/"$/, `-${cacheKey}"`),
+        },
+      };
+    }
+
+    return this.profileCache.get<ProfileData>(vanityName, cacheKey, maxAgeSeconds);
   }
 
-  private extractComponentData(data: any, sectionType: string): any[] {
-    const included: any[] = data.included || [];
-    const results: any[] = [];
+  // ── Private: Session refresh ─────────────────────────────────────────
 
-    const pagedListMap = new Map<string, any>();
-    const allPagedLists: any[] = [];
-    for (const item of included) {
-      if (
-        item.$type ===
-        'com.linkedin.voyager.dash.identity.profile.tetris.PagedListComponent'
-      ) {
-        allPagedLists.push(item);
-        if (item.entityUrn) {
-          pagedListMap.set(item.entityUrn, item);
-        }
-      }
+  private async refreshSession(): Promise<void> {
+    if (!this.transport.refreshSessionViaLogin) {
+      throw new Error(
+        `The ${this.transport.name} transport does not support session refresh`
+      );
     }
 
-    if (allPagedLists.length === 0) return [];
+    let newCreds: { csrfToken: string; cookies: Record<string, string> };
+    try {
+      newCreds = await this.transport.refreshSessionViaLogin(
+        this.linkedInEmail,
+        this.linkedInPassword
+      );
+      this.sessionMonitor.sessionStarted();
+      this.metrics.sessionRefreshes.inc({ outcome: 'success' });
+    } catch (err) {
+      this.metrics.sessionRefreshes.inc({
+        outcome:
+          err instanceof VerificationRequiredError
+            ? 'verification_required'
+            : 'failure',
+      });
+      throw err;
+    }
 
-    // Root PagedList: the one for fsd_profile, not fsd_profilePositionGroup
-    const rootPagedList =
-      allPagedLists.find(
-        (pl: any) =>
-          pl.entityUrn?.includes('fsd_profile:') &&
-          !pl.entityUrn?.includes('fsd_profilePositionGroup')
-      ) || allPagedLists[allPagedLists.length - 1];
+    // Persist the fresh cookies
+    await this.credentialStore.update((stored) => {
+      stored.csrfToken = newCreds.csrfToken;
+      stored.cookies = newCreds.cookies;
+    });
 
-    const elements = rootPagedList.components?.elements || [];
+    log.info('Stored credentials updated with fresh session', {
+      credentialStore: this.credentialStore.name,
+    });
+  }
 
-    for (const element of elements) {
-      const entity = element.components?.entityComponent;
-      if (!entity) continue;
+  // ── Private: API calls ──────────────────────────────────────────────
 
-      // Check for grouped entries (multiple roles at one company)
-      const referencedList = this.findReferencedPagedList(
-        entity,
-        pagedListMap
-      );
-      if (
-        referencedList &&
-        (sectionType === 'experience' ||
-          sectionType === 'volunteering-experiences')
-      ) {
-        const parentCompany =
-          this.resolveCompanyName(entity, included) ||
-          entity.titleV2?.text?.text ||
-          'N/A';
-        const nestedElements = referencedList.components?.elements || [];
-
-        for (const nestedEl of nestedElements) {
-          const nestedEntity = nestedEl.components?.entityComponent;
-          if (!nestedEntity) continue;
-          const item = this.extractEntityData(
-            nestedEntity,
-            sectionType,
-            included
-          );
-          if (item) {
-            if (item.company === 'N/A' || item.company === item.title) {
-              item.company = parentCompany;
-            }
-            results.push(item);
-          }
-        }
-      } else {
-        const item = this.extractEntityData(entity, sectionType, included);
-        if (item) results.push(item);
-      }
+  /**
+   * Make a LinkedIn request, counting it against the hourly budget and its
+   * client and reporting its outcome to the session monitor. `endpoint`
+   * labels its metrics: `urn`, `basic-profile`, `session-probe` or the
+   * section type.
+   */
+  private async upstreamRequest(
+    url: string,
+    endpoint: string,
+    usage: UpstreamUsage
+  ): Promise<BrowserApiResult> {
+    this.rateLimiter.recordRequest();
+    this.usageLedger.record(usage.attribution, usage.kind);
+
+    const started = Date.now();
+    let result: BrowserApiResult;
+    try {
+      result = await this.transport.request(url);
+    } catch (err) {
+      this.sessionMonitor.recordFailure();
+      throw err;
     }
-
-    return results;
+    this.sessionMonitor.recordResult(result);
+    const durationMs = Date.now() - started;
+
+    log.info('Upstream request', {
+      endpoint,
+      kind: usage.kind,
+      upstreamStatus: result.status,
+      durationMs,
+    });
+    this.metrics.upstreamDuration.observe({ endpoint }, durationMs / 1000);
+    this.metrics.upstreamRequests.inc({
+      endpoint,
+      status: String(result.status),
+    });
+    return result;
   }
 
-  private findReferencedPagedList(
-    entity: any,
-    pagedListMap: Map<string, any>
-  ): any | null {
-    const subComponents = entity.subComponents?.components || [];
-    for (const sub of subComponents) {
-      const ref = sub.components?.['*pagedListComponent'];
-      if (ref && pagedListMap.has(ref)) {
-        return pagedListMap.get(ref);
-      }
+  /**
+   * Fetch every page of a section and merge the items in page order.
+   */
+  private async fetchSection<K extends SectionType>(
+    profileUrn: string,
+    sectionType: K,
+    usage: SectionUsage
+  ): Promise<FetchedSection<K>> {
+    let fetched: FetchedSection<K>;
+    if (sectionType === 'recommendations') {
+      fetched = (await this.fetchRecommendations(
+        profileUrn,
+        usage
+      )) as FetchedSection<K>;
+    } else {
+      const { pages, failure } = await this.fetchSectionRaw(
+        profileUrn,
+        sectionType,
+        usage
+      );
+      const items = pages.flatMap((page) =>
+        extractComponentData(page, sectionType)
+      );
+      fetched = {
+        section: {
+          items,
+          paging: this.summarizePaging(sectionType, [pages]),
+        },
+        failure,
+      };
     }
-    return null;
+
+    this.metrics.sectionsFetched.inc({
+      section: sectionType,
+      result: fetched.section.items.length > 0 ? 'items' : 'empty',
+    });
+    return fetched;
   }
 
-  private resolveCompanyName(entity: any, included: any[]): string | null {
-    if (entity.image?.attributes) {
-      for (const attr of entity.image.attributes) {
-        const companyUrn = attr.detailData?.['*companyLogo'];
-        if (companyUrn) {
-          const co = included.find(
-            (item: any) => item.entityUrn === companyUrn
-          );
-          if (co?.name) return co.name;
-        }
-      }
+  /**
+   * Fetch both recommendation tabs. Each tab is its own paged list and its
+   * own set of requests; the given tab waits for a section slot like the
+   * next section would.
+   */
+  private async fetchRecommendations(
+    profileUrn: string,
+    usage: SectionUsage
+  ): Promise<FetchedSection<'recommendations'>> {
+    const items: RecommendationItem[] = [];
+    const tabPages: any[][] = [];
+    let failure: BrowserApiResult | null = null;
+
+    for (const [direction, tabIndex] of RECOMMENDATION_TABS) {
+      if (tabPages.length > 0) await this.rateLimiter.waitForSectionSlot();
+
+      const tab = await this.fetchSectionRaw(
+        profileUrn,
+        'recommendations',
+        usage,
+        `,tabIndex:${tabIndex}`
+      );
+      const pages = tab.pages;
+      failure ??= tab.failure;
+      tabPages.push(pages);
+      items.push(
+        ...pages.flatMap((page) => extractRecommendations(page, direction))
+      );
     }
-    return null;
+
+    return {
+      section: {
+        items,
+        paging: this.summarizePaging('recommendations', tabPages),
+      },
+      failure,
+    };
   }
 
-  private parseDurationCaption(caption: string): {
-    startDate: string | null;
-    endDate: string | null;
-    duration: string | null;
-  } {
-    if (!caption || caption === 'N/A') {
-      return { startDate: null, endDate: null, duration: null };
+  /** Paging totals over one or more paged lists (one per tab). */
+  private summarizePaging(
+    sectionType: SectionType,
+    lists: any[][]
+  ): SectionPaging {
+    let totalCount = 0;
+    let returnedCount = 0;
+    let pages = 0;
+
+    for (const listPages of lists) {
+      const returned = listPages.reduce(
+        (sum, page) => sum + (extractPaging(page)?.returned ?? 0),
+        0
+      );
+      returnedCount += returned;
+      totalCount += extractPaging(listPages[0])?.total ?? returned;
+      pages += listPages.length;
     }
-    // Format: "Nov 2025 - Present · 5 mos" or "Jan 2020 - Dec 2022 · 2 yrs 11 mos"
-    const [datePart, durationPart] = caption.split(' · ');
-    const duration = durationPart?.trim() || null;
-
-    if (datePart) {
-      const dashIndex = datePart.indexOf(' - ');
-      if (dashIndex !== -1) {
-        const startDate = datePart.slice(0, dashIndex).trim() || null;
-        const endDate = datePart.slice(dashIndex + 3).trim() || null;
-        return { startDate, endDate, duration };
-      }
+
+    if (returnedCount < totalCount) {
+      log.warn('Section incomplete', {
+        section: sectionType,
+        returnedCount,
+        totalCount,
+      });
     }
 
-    return { startDate: caption, endDate: null, duration: null };
+    return { totalCount, returnedCount, pages };
   }
 
-  private extractEntityData(
-    entity: any,
+  /**
+   * Fetch the raw section response, following the root PagedListComponent's
+   * paging metadata. Every page is a request against the hourly budget, and
+   * pages after the first wait for a section slot like any other section.
+   * `failure` is the request that failed, leaving the pages short.
+   */
+  private async fetchSectionRaw(
+    profileUrn: string,
     sectionType: string,
-    included: any[]
-  ): any {
-    const title = entity.titleV2?.text?.text || 'N/A';
-    const subtitle = entity.subtitle?.text || 'N/A';
-    const caption = entity.caption?.text || 'N/A';
-    const metadata = entity.metadata?.text || 'N/A';
-
-    let description: string | null = null;
-    const subComponents = entity.subComponents?.components || [];
-    for (const sub of subComponents) {
-      const textComp =
-        sub.components?.fixedListComponent?.components?.[0]?.components
-          ?.textComponent;
-      if (textComp?.text?.text) {
-        description = textComp.text.text;
-        break;
+    usage: SectionUsage,
+    extraVariables = ''
+  ): Promise<{ pages: any[]; failure: BrowserApiResult | null }> {
+    const pages: any[] = [];
+    let start = 0;
+    let count: number | null = null;
+
+    while (pages.length < LinkedInService.MAX_SECTION_PAGES) {
+      if (pages.length > 0) {
+        await this.rateLimiter.waitForSectionSlot();
+        log.info('Fetching next section page', { section: sectionType, start });
       }
-    }
 
-    let company = 'N/A';
-    if (entity.image?.attributes) {
-      for (const attr of entity.image.attributes) {
-        const companyUrn = attr.detailData?.['*companyLogo'];
-        if (companyUrn) {
-          const co = included.find(
-            (item: any) => item.entityUrn === companyUrn
-          );
-          if (co?.name) {
-            company = co.name;
-            break;
-          }
-        }
+      const window = count !== null ? `,start:${start},count:${count}` : '';
+      const url =
+        `/voyager/api/graphql?includeWebMetadata=true` +
+        `&variables=(profileUrn:${encodeURIComponent(profileUrn)},sectionType:${sectionType},locale:en_US${extraVariables}${window})` +
+        `&queryId=${GRAPHQL_QUERY_ID}`;
+
+      const result = await this.upstreamRequest(url, sectionType, usage);
+
+      if (result.error) {
+        log.warn('Section request failed', {
+          section: sectionType,
+          status: result.status,
+        });
+        if (pages.length === 0) pages.push({ included: [] });
+        return { pages, failure: result };
       }
-    }
 
-    switch (sectionType) {
-      case 'experience': {
-        const { startDate, endDate, duration } = this.parseDurationCaption(caption);
-        return {
-          title,
-          company: company !== 'N/A' ? company : subtitle,
-          startDate,
-          endDate,
-          duration,
-          location: metadata,
-          description,
-        };
-      }
-      case 'education':
-        return {
-          schoolName: title,
-          degree: subtitle,
-          dates: caption,
-          additionalInfo: description,
-        };
-      case 'skills':
-        return {
-          name: title,
-          endorsements: caption || '0 endorsements',
-        };
-      case 'projects':
-        return {
-          title,
-          description: description || subtitle,
-          date: caption,
-        };
-      case 'certifications':
-        return {
-          name: title,
-          organization: subtitle,
-          issueDate: caption,
-        };
-      case 'volunteering-experiences': {
-        const { startDate, endDate, duration } = this.parseDurationCaption(caption);
-        return {
-          role: title,
-          organization: company !== 'N/A' ? company : subtitle,
-          startDate,
-          endDate,
-          duration,
-          cause: metadata,
-          description,
-        };
+      const data = result.data || { included: [] };
+      pages.push(data);
+
+      const paging = extractPaging(data);
+      if (
+        !paging ||
+        paging.total === null ||
+        paging.returned === 0 ||
+        paging.start + paging.returned >= paging.total
+      ) {
+        break;
       }
-      default:
-        return null;
+
+      start = paging.start + paging.returned;
+      count = paging.count;
     }
+
+    return { pages, failure: null };
   }
 
-  // ── Private: Credentials ────────────────────────────────────────────
+  // ── Private: Ambient traffic ────────────────────────────────────────
 
-  private loadCredentials(): LinkedInCredentials {
-    if (!fs.existsSync(this.credentialsPath)) {
-      throw new Error(
-        `Credentials file not found at: ${this.credentialsPath}. ` +
-          'Please generate credentials first.'
-      );
-    }
-    return JSON.parse(fs.readFileSync(this.credentialsPath, 'utf-8'));
-  }
+  private async generateAmbientTraffic(): Promise<void> {
+    const navigateTo = this.transport.navigateTo?.bind(this.transport);
+    const scrollPage = this.transport.scrollPage?.bind(this.transport);
+    if (!navigateTo || !scrollPage) return;
 
-  private saveCredentials(credentials: LinkedInCredentials): void {
-    credentials.lastUpdated = new Date().toISOString();
-    fs.writeFileSync(
-      this.credentialsPath,
-      JSON.stringify(credentials, null, 2)
-    );
+    const actions = [
+      async () => {
+        log.debug('Ambient traffic: visiting feed');
+        await navigateTo('/feed/');
+        await this.sleep(2000, 4000);
+      },
+      async () => {
+        log.debug('Ambient traffic: checking notifications');
+        await navigateTo('/notifications/');
+        await this.sleep(1500, 3000);
+      },
+      async () => {
+        log.debug('Ambient traffic: scrolling');
+        await scrollPage();
+        await this.sleep(1000, 2000);
+      },
+    ];
+
+    const action = actions[Math.floor(Math.random() * actions.length)];
+    await action();
   }
 
   // ── Private: Helpers ────────────────────────────────────────────────
@@ -626,21 +1098,16 @@ export class LinkedInService {
   }
 
   private logProfileSummary(result: ProfileData): void {
-    console.log('📊 Profile data structured successfully');
-    console.log(
-      `   Name: ${result.basicInfo.firstName} ${result.basicInfo.lastName}`
-    );
-    console.log(`   Headline: ${result.basicInfo.headline}`);
-    console.log(`   Experience: ${result.experience.length} positions`);
-    console.log(`   Education: ${result.education.length} entries`);
-    console.log(`   Skills: ${result.skills.length} skills`);
-    console.log(`   Projects: ${result.projects.length} projects`);
-    console.log(
-      `   Certifications: ${result.certifications.length} certifications`
-    );
-    console.log(
-      `   Volunteering: ${result.volunteeringExperiences.length} entries\n`
-    );
+    const counts: Partial<Record<SectionType, number>> = {};
+    for (const [type] of ALL_SECTIONS) {
+      if (!result.metadata.skipped.includes(type)) {
+        counts[type] = profileSectionItems(result, type).length;
+      }
+    }
+    log.info('Profile data structured', {
+      name: `${result.basicInfo.firstName} ${result.basicInfo.lastName}`.trim(),
+      sections: counts,
+    });
   }
 
   private sleep(minMs: number, maxMs: number): Promise<void> {
@@ -0,0 +1,135 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/** Fields attached to every line logged while the context is active. */
+export interface LogContext {
+  requestId?: string;
+  vanityName?: string;
+  section?: string;
+  jobId?: string;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+// Cloud Logging reads `severity`; `level` is for everything else
+const SEVERITY: Record<LogLevel, string> = {
+  debug: 'DEBUG',
+  info: 'INFO',
+  warn: 'WARNING',
+  error: 'ERROR',
+};
+
+const REDACTED = '[REDACTED]';
+
+/** Field names whose values are never logged. */
+const SECRET_FIELD =
+  /token|cookie|csrf|authorization|password|secret|jsessionid|li_at|api-?key$/i;
+
+/** Secrets that can turn up inside free text (messages, upstream errors). */
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  [/\bBearer\s+[\w.~+/=-]+/gi, `Bearer ${REDACTED}`],
+  [/\blk_[\w-]+/g, REDACTED],
+  [
+    /\b(JSESSIONID|li_at|liap|bcookie|bscookie|lidc)=("?)[^;"\s]+\2/gi,
+    `$1=${REDACTED}`,
+  ],
+  [/\bajax:\d+/g, REDACTED],
+];
+
+const storage = new AsyncLocalStorage<LogContext>();
+const minLevel: number =
+  LEVELS[process.env.LOG_LEVEL as LogLevel] ?? LEVELS.info;
+
+/**
+ * Run `fn` with `context` merged into the current log context, so every
+ * line it logs — including from async work it starts — carries the fields.
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return storage.run({ ...storage.getStore(), ...context }, fn);
+}
+
+/**
+ * Add fields to the active context in place, for values only known part
+ * way through (such as route parameters). No-op outside any context.
+ */
+export function addLogContext(context: LogContext): void {
+  const store = storage.getStore();
+  if (store) Object.assign(store, context);
+}
+
+/** Request id of the request being handled, if any. */
+export function currentRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
+
+/**
+ * JSON-lines logger: one object per line with time, level, message, the
+ * active log context and any extra fields. Secrets are redacted, both by
+ * field name and by pattern inside strings.
+ */
+export const log = {
+  debug: (message: string, fields?: Record<string, unknown>) =>
+    write('debug', message, fields),
+  info: (message: string, fields?: Record<string, unknown>) =>
+    write('info', message, fields),
+  warn: (message: string, fields?: Record<string, unknown>) =>
+    write('warn', message, fields),
+  error: (message: string, fields?: Record<string, unknown>) =>
+    write('error', message, fields),
+};
+
+function write(
+  level: LogLevel,
+  message: string,
+  fields?: Record<string, unknown>
+): void {
+  if (LEVELS[level] < minLevel) return;
+
+  const entry = {
+    time: new Date().toISOString(),
+    severity: SEVERITY[level],
+    level,
+    message: redactText(message),
+    ...storage.getStore(),
+    ...(redact(fields ?? {}) as Record<string, unknown>),
+  };
+
+  const line = JSON.stringify(entry) + '\n';
+  if (level === 'error' || level === 'warn') {
+    process.stderr.write(line);
+  } else {
+    process.stdout.write(line);
+  }
+}
+
+/** A copy of `value` with secret fields and secret-looking text replaced. */
+function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return redactText(value);
+  if (value instanceof Error) {
+    return { name: value.name, message: redactText(value.message) };
+  }
+  if (value === null || typeof value !== 'object' || depth > 5) return value;
+  if (Array.isArray(value)) return value.map((v) => redact(v, depth + 1));
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, v] of Object.entries(value)) {
+    // Flags and counts about secrets (`hasToken`, `cookieCount`) are fine
+    const secret =
+      SECRET_FIELD.test(key) && typeof v !== 'boolean' && typeof v !== 'number';
+    copy[key] = secret ? REDACTED : redact(v, depth + 1);
+  }
+  return copy;
+}
+
+function redactText(text: string): string {
+  return SECRET_PATTERNS.reduce(
+    (result, [pattern, replacement]) => result.replace(pattern, replacement),
+    text
+  );
+}
@@ -0,0 +1,220 @@
+/**
+ * Minimal Prometheus text-format metrics: counters, gauges and histograms
+ * with labels, rendered on demand for `GET /metrics`. Everything lives in
+ * memory and resets on restart, as Prometheus expects.
+ */
+
+type Labels = Record<string, string>;
+
+const PREFIX = 'linkedin_api_';
+
+/** Seconds; profile fetches wait on the rate limiter, hence the long tail. */
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+interface Metric {
+  render(): string[];
+}
+
+class Counter implements Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    private name: string,
+    private help: string
+  ) {}
+
+  inc(labels: Labels = {}, by = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) || { labels, value: 0 };
+    entry.value += by;
+    this.values.set(key, entry);
+  }
+
+  /** Sum over every series whose labels include `match`. */
+  total(match: Labels = {}): number {
+    let sum = 0;
+    for (const { labels, value } of this.values.values()) {
+      if (Object.entries(match).every(([name, v]) => labels[name] === v)) {
+        sum += value;
+      }
+    }
+    return sum;
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values.values()].map(
+        ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+      ),
+    ];
+  }
+}
+
+/** A gauge read at scrape time from `collect`. */
+class Gauge implements Metric {
+  constructor(
+    private name: string,
+    private help: string,
+    private collect: () => number
+  ) {}
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      `${this.name} ${this.collect()}`,
+    ];
+  }
+}
+
+class Histogram implements Metric {
+  private series = new Map<
+    string,
+    { labels: Labels; buckets: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    private name: string,
+    private help: string,
+    private bounds: number[] = DURATION_BUCKETS
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    const entry = this.series.get(key) || {
+      labels,
+      buckets: this.bounds.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) entry.buckets[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    this.series.set(key, entry);
+  }
+
+  render(): string[] {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`,
+    ];
+
+    for (const { labels, buckets, sum, count } of this.series.values()) {
+      this.bounds.forEach((bound, i) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[i]}`
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+        `${this.name}_sum${formatLabels(labels)} ${sum}`,
+        `${this.name}_count${formatLabels(labels)} ${count}`
+      );
+    }
+
+    return lines;
+  }
+}
+
+/**
+ * The service's metrics. One instance is created by the server and handed
+ * to the components that record into it.
+ */
+export class Metrics {
+  readonly httpRequests = new Counter(
+    `${PREFIX}http_requests_total`,
+    'HTTP requests served, by method, route and status.'
+  );
+  readonly httpDuration = new Histogram(
+    `${PREFIX}http_request_duration_seconds`,
+    'HTTP request latency, by method and route.'
+  );
+  readonly upstreamRequests = new Counter(
+    `${PREFIX}upstream_requests_total`,
+    'Voyager calls, by endpoint (urn, basic-profile or a section) and HTTP status (0 = network error).'
+  );
+  readonly upstreamDuration = new Histogram(
+    `${PREFIX}upstream_request_duration_seconds`,
+    'Voyager call latency, by endpoint.'
+  );
+  readonly sectionsFetched = new Counter(
+    `${PREFIX}sections_fetched_total`,
+    'Sections fetched from LinkedIn, by section and result (items or empty).'
+  );
+  readonly softLimits = new Counter(
+    `${PREFIX}soft_limit_detections_total`,
+    'Empty default sections seen at or past the soft rate limit threshold.'
+  );
+  readonly sessionRefreshes = new Counter(
+    `${PREFIX}session_refreshes_total`,
+    'Session refresh attempts, by outcome (success, verification_required or failure).'
+  );
+  readonly credentialSwaps = new Counter(
+    `${PREFIX}credential_swaps_total`,
+    'Runtime credential replacements, by outcome (success, rejected or failure).'
+  );
+  readonly cacheLookups = new Counter(
+    `${PREFIX}cache_lookups_total`,
+    'Profile cache lookups, by kind (profile or section) and result (hit or miss).'
+  );
+
+  private gauges: Gauge[] = [
+    new Gauge(
+      `${PREFIX}cache_hit_ratio`,
+      'Share of profile cache lookups served from the cache since start.',
+      () => {
+        const total = this.cacheLookups.total();
+        return total === 0
+          ? 0
+          : this.cacheLookups.total({ result: 'hit' }) / total;
+      }
+    ),
+  ];
+
+  /** Report `collect()` as a gauge on every scrape. */
+  addGauge(name: string, help: string, collect: () => number): void {
+    this.gauges.push(new Gauge(`${PREFIX}${name}`, help, collect));
+  }
+
+  render(): string {
+    const metrics: Metric[] = [
+      this.httpRequests,
+      this.httpDuration,
+      this.upstreamRequests,
+      this.upstreamDuration,
+      this.sectionsFetched,
+      this.softLimits,
+      this.sessionRefreshes,
+      this.credentialSwaps,
+      this.cacheLookups,
+      ...this.gauges,
+    ];
+    return metrics.map((metric) => metric.render().join('\n')).join('\n') + '\n';
+  }
+}
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((name) => `${name}=${labels[name]}`)
+    .join('\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n');
+}
@@ -0,0 +1,118 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { CacheStatus } from './types';
+
+/** Cache key for a full profile, alongside the per-section keys. */
+export const FULL_PROFILE_KEY = 'profile';
+
+/**
+ * Bump whenever the shape of cached data changes; entries written with
+ * another version are treated as misses instead of served stale-shaped.
+ */
+const CACHE_FORMAT_VERSION = 4;
+
+interface StoredEntry<T> {
+  version: number;
+  storedAt: string;
+  etag: string;
+  data: T;
+}
+
+/**
+ * Disk-backed cache of fetched profile data, one JSON file per
+ * vanity name + section under `<dir>/<vanityName>/<section>.json`.
+ *
+ * Entries are never evicted; an entry older than the allowed age is simply
+ * ignored and overwritten by the next successful fetch.
+ */
+export class ProfileCache {
+  private dir: string;
+  private ttlSeconds: number;
+
+  constructor(options?: { dir?: string; ttlSeconds?: number }) {
+    this.dir = options?.dir || path.join(process.cwd(), '.profile-cache');
+    this.ttlSeconds = options?.ttlSeconds ?? 86_400;
+  }
+
+  getTtlSeconds(): number {
+    return this.ttlSeconds;
+  }
+
+  /**
+   * Return the cached entry if it is younger than `maxAgeSeconds`
+   * (defaults to the configured TTL). `0` always misses.
+   */
+  get<T>(
+    vanityName: string,
+    section: string,
+    maxAgeSeconds = this.ttlSeconds
+  ): { data: T; status: CacheStatus } | null {
+    if (maxAgeSeconds <= 0) return null;
+
+    const file = this.fileFor(vanityName, section);
+    if (!fs.existsSync(file)) return null;
+
+    let entry: StoredEntry<T>;
+    try {
+      entry = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch {
+      // A torn write from a previous crash; treat as a miss and overwrite later
+      return null;
+    }
+
+    if (entry.version !== CACHE_FORMAT_VERSION) return null;
+
+    const ageSeconds = Math.floor(
+      (Date.now() - Date.parse(entry.storedAt)) / 1000
+    );
+    if (!(ageSeconds <= maxAgeSeconds)) return null;
+
+    return {
+      data: entry.data,
+      status: { hit: true, storedAt: entry.storedAt, ageSeconds, etag: entry.etag },
+    };
+  }
+
+  set<T>(vanityName: string, section: string, data: T): CacheStatus {
+    const status = this.freshStatus(data);
+    const entry: StoredEntry<T> = {
+      version: CACHE_FORMAT_VERSION,
+      storedAt: status.storedAt,
+      etag: status.etag,
+      data,
+    };
+
+    const file = this.fileFor(vanityName, section);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(entry));
+
+    return status;
+  }
+
+  /** Status of freshly fetched data, whether or not it gets stored. */
+  freshStatus(data: unknown): CacheStatus {
+    return {
+      hit: false,
+      storedAt: new Date().toISOString(),
+      ageSeconds: 0,
+      etag: this.computeEtag(data),
+    };
+  }
+
+  private computeEtag(data: unknown): string {
+    const hash = crypto
+      .createHash('sha1')
+      .update(JSON.stringify(data))
+      .digest('base64url');
+    return `"${hash}"`;
+  }
+
+  private fileFor(vanityName: string, section: string): string {
+    return path.join(
+      this.dir,
+      encodeURIComponent(vanityName.toLowerCase()),
+      `${encodeURIComponent(section)}.json`
+    );
+  }
+}
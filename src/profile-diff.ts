@@ -0,0 +1,151 @@
+import { formatYearMonth } from './date-parser';
+import { ALL_SECTIONS, profileSectionItems } from './linkedin.service';
+import {
+  FieldChange,
+  ProfileChanges,
+  ProfileData,
+  SectionDiff,
+  SectionItem,
+  SectionItemMap,
+  SectionType,
+} from './types';
+
+/**
+ * Fields that identify an item within its section. They are chosen to
+ * survive ordinary edits: a role that ends keeps its key (company, title,
+ * start), while a new title at the same company shows as removed + added.
+ */
+const ITEM_KEYS: {
+  [K in SectionType]: (item: SectionItemMap[K]) => unknown[];
+} = {
+  experience: (item) => [item.company, item.title, formatYearMonth(item.start)],
+  education: (item) => [item.schoolName, formatYearMonth(item.start)],
+  skills: (item) => [item.name],
+  projects: (item) => [item.title],
+  certifications: (item) => [item.name, item.organization],
+  'volunteering-experiences': (item) => [
+    item.organization,
+    item.role,
+    formatYearMonth(item.start),
+  ],
+  languages: (item) => [item.name],
+  honors: (item) => [item.title, item.issuer],
+  publications: (item) => [item.title],
+  courses: (item) => [item.name],
+  patents: (item) => [item.number || item.title],
+  'test-scores': (item) => [item.name, item.date],
+  organizations: (item) => [item.name, formatYearMonth(item.start)],
+  recommendations: (item) => [item.direction, item.name, item.isoDate || item.date],
+};
+
+/**
+ * Fields that drift between fetches without the profile changing: running
+ * durations of current items, and profile picture URLs (signed, expiring).
+ */
+const VOLATILE_FIELDS = new Set(['duration', 'durationMonths', 'profilePicture']);
+
+/** Compare two fetched profiles of the same member, `from` being the older. */
+export function diffProfiles(from: ProfileData, to: ProfileData): ProfileChanges {
+  // An incomplete section would show every missing item as removed
+  const notCompared = [
+    ...new Set([
+      ...from.metadata.skipped,
+      ...to.metadata.skipped,
+      ...(from.metadata.incompleteSections ?? []),
+      ...(to.metadata.incompleteSections ?? []),
+    ]),
+  ];
+
+  const basicInfo = notCompared.includes('basicInfo')
+    ? []
+    : diffFields(from.basicInfo, to.basicInfo);
+
+  const sections: ProfileChanges['sections'] = {};
+  for (const [sectionType] of ALL_SECTIONS) {
+    if (notCompared.includes(sectionType)) continue;
+
+    const diff = diffSection(
+      sectionType,
+      profileSectionItems(from, sectionType),
+      profileSectionItems(to, sectionType)
+    );
+    if (diff.added.length || diff.removed.length || diff.modified.length) {
+      (sections as Record<SectionType, SectionDiff<SectionItem>>)[sectionType] =
+        diff;
+    }
+  }
+
+  return {
+    changed: basicInfo.length > 0 || Object.keys(sections).length > 0,
+    basicInfo,
+    sections,
+    notCompared,
+  };
+}
+
+function diffSection(
+  sectionType: SectionType,
+  fromItems: SectionItem[],
+  toItems: SectionItem[]
+): SectionDiff<SectionItem> {
+  const before = keyItems(sectionType, fromItems);
+  const after = keyItems(sectionType, toItems);
+  const diff: SectionDiff<SectionItem> = { added: [], removed: [], modified: [] };
+
+  for (const [key, item] of after) {
+    const previous = before.get(key);
+    if (!previous) {
+      diff.added.push(item);
+      continue;
+    }
+    const changes = diffFields(previous, item);
+    if (changes.length > 0) {
+      diff.modified.push({ key, from: previous, to: item, changes });
+    }
+  }
+
+  for (const [key, item] of before) {
+    if (!after.has(key)) diff.removed.push(item);
+  }
+
+  return diff;
+}
+
+/** Items by key; repeated keys get an occurrence suffix (`key #2`). */
+function keyItems(
+  sectionType: SectionType,
+  items: SectionItem[]
+): Map<string, SectionItem> {
+  const keyOf = ITEM_KEYS[sectionType] as (item: SectionItem) => unknown[];
+  const keyed = new Map<string, SectionItem>();
+
+  for (const item of items) {
+    const base = keyOf(item)
+      .map((part) => String(part ?? '').trim().toLowerCase())
+      .join(' | ');
+    let key = base;
+    for (let n = 2; keyed.has(key); n++) key = `${base} #${n}`;
+    keyed.set(key, item);
+  }
+
+  return keyed;
+}
+
+function diffFields(from: object, to: object): FieldChange[] {
+  const before = from as Record<string, unknown>;
+  const after = to as Record<string, unknown>;
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    if (VOLATILE_FIELDS.has(field)) continue;
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      changes.push({
+        field,
+        from: before[field] ?? null,
+        to: after[field] ?? null,
+      });
+    }
+  }
+  return changes;
+}
@@ -1,3 +1,5 @@
+import { log } from './logger';
+
 /**
  * Smart rate limiter that tracks per-session usage and enforces
  * configurable delays between profiles and between individual section calls.
@@ -38,9 +40,10 @@ export class RateLimiter {
       const oldest = this.requestTimestamps[0];
       const waitMs = oldest + 3_600_000 - Date.now();
       if (waitMs > 0) {
-        console.log(
-          `   ⏳ Hourly quota (${this.MAX_REQUESTS_PER_HOUR}) reached. Waiting ${(waitMs / 1000).toFixed(0)}s...`
-        );
+        log.warn('Hourly quota reached, waiting', {
+          maxRequestsPerHour: this.MAX_REQUESTS_PER_HOUR,
+          waitMs,
+        });
         await this.sleep(waitMs);
       }
     }
@@ -50,9 +53,7 @@ export class RateLimiter {
       const gap = this.randomInt(this.MIN_PROFILE_GAP_MS, this.MAX_PROFILE_GAP_MS);
       if (elapsed < gap) {
         const waitMs = gap - elapsed;
-        console.log(
-          `   ⏳ Inter-profile delay: ${(waitMs / 1000).toFixed(1)}s...`
-        );
+        log.info('Inter-profile delay', { waitMs });
         await this.sleep(waitMs);
       }
     }
@@ -92,6 +93,33 @@ export class RateLimiter {
     };
   }
 
+  /**
+   * Rough wall-clock estimate for fetching `profiles` full profiles,
+   * using average gaps plus whole-hour waits once the quota runs out.
+   */
+  estimateDurationMs(
+    profiles: number,
+    cost: { requestsPerProfile: number; sectionsPerProfile: number }
+  ): number {
+    this.pruneOldTimestamps();
+
+    const avgProfileGap = (this.MIN_PROFILE_GAP_MS + this.MAX_PROFILE_GAP_MS) / 2;
+    const avgSectionGap = (this.MIN_SECTION_GAP_MS + this.MAX_SECTION_GAP_MS) / 2;
+    let ms = profiles * (avgProfileGap + cost.sectionsPerProfile * avgSectionGap);
+
+    const needed = profiles * cost.requestsPerProfile;
+    const remaining = Math.max(
+      0,
+      this.MAX_REQUESTS_PER_HOUR - this.requestTimestamps.length
+    );
+    if (needed > remaining) {
+      ms +=
+        Math.ceil((needed - remaining) / this.MAX_REQUESTS_PER_HOUR) * 3_600_000;
+    }
+
+    return ms;
+  }
+
   private pruneOldTimestamps(): void {
     const cutoff = Date.now() - 3_600_000;
     this.requestTimestamps = this.requestTimestamps.filter((t) => t > cutoff);
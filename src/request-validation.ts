@@ -0,0 +1,83 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import {
+  describeSchema,
+  OPERATIONS,
+  ParameterSchema,
+  ParameterSpec,
+} from './api-spec';
+import { ApiResponse } from './types';
+
+/**
+ * Middleware that checks the path and query parameters of a request against
+ * the operation's spec and answers 400 with the parameter's error code when
+ * one does not match. Handlers behind it can trust the values they read.
+ */
+export function validateRequest(operationId: string): RequestHandler {
+  const operation = OPERATIONS.find((op) => op.operationId === operationId);
+  if (!operation) {
+    throw new Error(`No operation in the API spec: ${operationId}`);
+  }
+  const checked = (operation.parameters ?? []).filter((p) => p.errorCode);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    for (const parameter of checked) {
+      const value =
+        parameter.in === 'path'
+          ? req.params[parameter.name]
+          : req.query[parameter.name];
+
+      if (value === undefined && !parameter.required) continue;
+      if (typeof value === 'string' && matches(parameter.schema, value)) {
+        continue;
+      }
+
+      return res.status(400).json(invalidParameterResponse(parameter, value));
+    }
+    next();
+  };
+}
+
+function matches(schema: ParameterSchema, value: string): boolean {
+  switch (schema.type) {
+    case 'string':
+      return (
+        (!schema.enum || schema.enum.includes(value)) &&
+        (!schema.pattern || new RegExp(schema.pattern).test(value))
+      );
+    case 'integer': {
+      if (!/^\d+$/.test(value)) return false;
+      const n = parseInt(value, 10);
+      return (
+        (schema.minimum === undefined || n >= schema.minimum) &&
+        (schema.maximum === undefined || n <= schema.maximum)
+      );
+    }
+    case 'array': {
+      const items = value
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean);
+      return (
+        items.length > 0 &&
+        items.every((item) => schema.items.enum.includes(item))
+      );
+    }
+  }
+}
+
+function invalidParameterResponse(
+  parameter: ParameterSpec,
+  value: unknown
+): ApiResponse {
+  return {
+    success: false,
+    error: {
+      code: parameter.errorCode!,
+      message:
+        value === undefined
+          ? `${parameter.name} is required`
+          : `Invalid ${parameter.name}: ${value}`,
+      details: parameter.hint ?? describeSchema(parameter.schema),
+    },
+  };
+}
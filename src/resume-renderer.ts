@@ -0,0 +1,103 @@
+import fs from 'fs';
+import path from 'path';
+import Handlebars from 'handlebars';
+import { ProfileData } from './types';
+
+export type ResumeFormat = 'html' | 'md';
+
+/** Built-in layouts shipped with the service. */
+export const BUILTIN_TEMPLATE_DIR = path.join(
+  __dirname,
+  '..',
+  'templates',
+  'resume'
+);
+
+/**
+ * Renders a ProfileData through Handlebars templates.
+ *
+ * A template named `<name>` is the file `<name>.html.hbs` (HTML and PDF)
+ * and/or `<name>.md.hbs` (Markdown) in one of the template directories.
+ * Directories are searched in order, so a custom directory placed before
+ * the built-in one can override a built-in layout by reusing its name.
+ *
+ * Templates receive `profile` (the ProfileData), `fullName` and
+ * `generatedAt`, plus the `dateRange` and `join` helpers.
+ */
+export class ResumeRenderer {
+  private templateDirs: string[];
+  private handlebars = Handlebars.create();
+
+  constructor(options?: { templateDirs?: string[] }) {
+    this.templateDirs = options?.templateDirs ?? [BUILTIN_TEMPLATE_DIR];
+
+    this.handlebars.registerHelper(
+      'dateRange',
+      (start: unknown, end: unknown) =>
+        [start, end].filter((d) => typeof d === 'string' && d).join(' – ')
+    );
+    // {{join company location sep=" · "}} — skips empty values
+    this.handlebars.registerHelper('join', (...args: any[]) => {
+      const options = args.pop();
+      const sep = typeof options.hash?.sep === 'string' ? options.hash.sep : ', ';
+      return args.filter((v) => typeof v === 'string' && v).join(sep);
+    });
+  }
+
+  /** Template names available per format, across all directories. */
+  listTemplates(): Record<ResumeFormat, string[]> {
+    const found: Record<ResumeFormat, Set<string>> = {
+      html: new Set(),
+      md: new Set(),
+    };
+
+    for (const dir of this.templateDirs) {
+      if (!fs.existsSync(dir)) continue;
+      for (const file of fs.readdirSync(dir)) {
+        const match = file.match(/^([\w-]+)\.(html|md)\.hbs$/);
+        if (match) found[match[2] as ResumeFormat].add(match[1]);
+      }
+    }
+
+    return {
+      html: [...found.html].sort(),
+      md: [...found.md].sort(),
+    };
+  }
+
+  hasTemplate(name: string, format: ResumeFormat): boolean {
+    return this.findTemplate(name, format) !== null;
+  }
+
+  render(profile: ProfileData, format: ResumeFormat, name: string): string {
+    const file = this.findTemplate(name, format);
+    if (!file) {
+      throw new Error(`Resume template not found: ${name} (${format})`);
+    }
+
+    // Compiled per call so edits to custom templates apply without a restart
+    const template = this.handlebars.compile(fs.readFileSync(file, 'utf-8'), {
+      noEscape: format === 'md',
+      strict: false,
+    });
+
+    return template({
+      profile,
+      fullName: [profile.basicInfo.firstName, profile.basicInfo.lastName]
+        .filter(Boolean)
+        .join(' '),
+      generatedAt: new Date().toISOString(),
+    });
+  }
+
+  private findTemplate(name: string, format: ResumeFormat): string | null {
+    // Names are used as file names; never let one walk out of the directory
+    if (!/^[\w-]+$/.test(name)) return null;
+
+    for (const dir of this.templateDirs) {
+      const file = path.join(dir, `${name}.${format}.hbs`);
+      if (fs.existsSync(file)) return file;
+    }
+    return null;
+  }
+}
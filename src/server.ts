@@ -1,129 +1,793 @@
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
+import crypto from 'crypto';
 import path from 'path';
-import { LinkedInService } from './linkedin.service';
-import { ApiResponse } from './types';
+import {
+  API_SCOPES,
+  ApiKeyStore,
+  hasScope,
+  originAllowed,
+} from './api-key-store';
+import {
+  buildOpenApiDocument,
+  ERROR_CODES,
+  MAX_BATCH_SIZE,
+  OPERATIONS,
+  renderApiDocs,
+  VALID_SECTIONS,
+  VANITY_NAME_HINT,
+  VANITY_NAME_PATTERN,
+} from './api-spec';
+import { toCsv, toNdjson } from './batch-export';
+import {
+  COOKIE_EXPORT_FORMATS,
+  CookieExportFormat,
+  parseCookieExport,
+} from './cookie-import';
+import {
+  credentialsFromCookies,
+  CredentialStore,
+  EnvCredentialStore,
+  FileCredentialStore,
+  missingCookies,
+  REQUIRED_COOKIES,
+} from './credential-stores';
+import { ServiceError, SessionExpiredError } from './errors';
+import { JobRunner } from './job-runner';
+import {
+  addLogContext,
+  currentRequestId,
+  log,
+  withLogContext,
+} from './logger';
+import { Metrics } from './metrics';
+import { toJsonResume } from './json-resume';
+import { JobStore } from './job-store';
+import {
+  DEFAULT_SECTIONS,
+  groupRecommendations,
+  LinkedInService,
+} from './linkedin.service';
+import { ProfileCache } from './profile-cache';
+import { diffProfiles } from './profile-diff';
+import { validateRequest } from './request-validation';
+import {
+  BUILTIN_TEMPLATE_DIR,
+  ResumeFormat,
+  ResumeRenderer,
+} from './resume-renderer';
+import { SessionMonitor } from './session-monitor';
+import { SnapshotStore } from './snapshot-store';
+import { UsageLedger } from './usage-ledger';
+import {
+  BrowserTransport,
+  HttpTransport,
+  ReplayTransport,
+  VoyagerTransport,
+} from './transports';
+import {
+  ApiKeyRecord,
+  ApiResponse,
+  ApiScope,
+  Batch,
+  CacheStatus,
+  FetchOptions,
+  ProfileData,
+  ProfileDiff,
+  ProfileSelection,
+  RecommendationItem,
+  RequestAttribution,
+  SectionType,
+  SnapshotSummary,
+  UsageClientTotals,
+  UsageRow,
+} from './types';
+import profileDataSchema from './schema/profile-data.schema.json';
 
 dotenv.config();
 
 const PORT = process.env.PORT || 3001;
-const API_TOKEN =
-  process.env.API_TOKEN || 'your-secret-static-token-here-change-this';
-
-const VALID_SECTIONS = [
-  'experience',
-  'education',
-  'skills',
-  'projects',
-  'certifications',
-  'volunteering-experiences',
-];
+
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+const openApiDocument = buildOpenApiDocument();
+const apiDocsHtml = renderApiDocs();
 
 // ── Service initialisation ────────────────────────────────────────────
 
-const credentialsPath = process.env.CREDENTIALS_PATH
-  ? path.resolve(process.env.CREDENTIALS_PATH)
-  : path.join(process.cwd(), 'linkedin-credentials.json');
+// CREDENTIALS_STORE: file (default) | encrypted-file | env
+function createCredentialStore(): CredentialStore {
+  const file = process.env.CREDENTIALS_PATH
+    ? path.resolve(process.env.CREDENTIALS_PATH)
+    : path.join(process.cwd(), 'linkedin-credentials.json');
+
+  switch (process.env.CREDENTIALS_STORE || 'file') {
+    case 'file':
+      return new FileCredentialStore({ file });
+    case 'encrypted-file':
+      if (!process.env.CREDENTIALS_KEY) {
+        throw new Error(
+          'CREDENTIALS_STORE=encrypted-file needs CREDENTIALS_KEY'
+        );
+      }
+      return new FileCredentialStore({
+        file,
+        encryptionSecret: process.env.CREDENTIALS_KEY,
+      });
+    case 'env':
+      return new EnvCredentialStore({ variable: 'LINKEDIN_CREDENTIALS' });
+    default:
+      throw new Error(
+        `Unknown CREDENTIALS_STORE: ${process.env.CREDENTIALS_STORE}`
+      );
+  }
+}
+
+const credentialStore = createCredentialStore();
+
+// VOYAGER_TRANSPORT: browser (default) | http | replay
+function createTransport(): VoyagerTransport {
+  const headless = process.env.HEADLESS !== 'false';
+
+  switch (process.env.VOYAGER_TRANSPORT || 'browser') {
+    case 'browser':
+      return new BrowserTransport({ headless });
+    case 'http':
+      return new HttpTransport({
+        baseUrl: process.env.VOYAGER_BASE_URL || 'http://localhost:4010',
+      });
+    case 'replay':
+      return new ReplayTransport({
+        dir: path.resolve(process.env.REPLAY_DIR || 'recordings'),
+        recordFrom:
+          process.env.REPLAY_RECORD === 'true'
+            ? new BrowserTransport({ headless })
+            : undefined,
+      });
+    default:
+      throw new Error(
+        `Unknown VOYAGER_TRANSPORT: ${process.env.VOYAGER_TRANSPORT}`
+      );
+  }
+}
+
+const transport = createTransport();
+
+const profileCache = new ProfileCache({
+  dir: process.env.PROFILE_CACHE_DIR
+    ? path.resolve(process.env.PROFILE_CACHE_DIR)
+    : path.join(process.cwd(), '.profile-cache'),
+  ttlSeconds: process.env.PROFILE_CACHE_TTL_SECONDS
+    ? parseInt(process.env.PROFILE_CACHE_TTL_SECONDS, 10)
+    : 86_400,
+});
+
+const snapshotStore = new SnapshotStore({
+  dir: process.env.SNAPSHOT_DIR
+    ? path.resolve(process.env.SNAPSHOT_DIR)
+    : path.join(process.cwd(), '.snapshots'),
+});
+
+const usageLedger = new UsageLedger({
+  file: process.env.USAGE_FILE
+    ? path.resolve(process.env.USAGE_FILE)
+    : path.join(process.cwd(), '.usage.json'),
+});
+
+// Readiness fails after SESSION_MAX_FAILURES upstream failures in a row,
+// or once the CSRF token is older than SESSION_MAX_TOKEN_AGE_HOURS (if set).
+// A failing or expired session is re-probed every SESSION_REPROBE_SECONDS
+// at most; each probe is an upstream request against the hourly budget.
+const sessionMonitor = new SessionMonitor({
+  transport,
+  maxConsecutiveFailures: process.env.SESSION_MAX_FAILURES
+    ? parseInt(process.env.SESSION_MAX_FAILURES, 10)
+    : 5,
+  maxTokenAgeSeconds: process.env.SESSION_MAX_TOKEN_AGE_HOURS
+    ? parseFloat(process.env.SESSION_MAX_TOKEN_AGE_HOURS) * 3600
+    : null,
+  reprobeIntervalSeconds: process.env.SESSION_REPROBE_SECONDS
+    ? parseInt(process.env.SESSION_REPROBE_SECONDS, 10)
+    : 300,
+});
+
+const metrics = new Metrics();
+metrics.addGauge(
+  'browser_queue_depth',
+  'Voyager calls waiting for the browser page.',
+  () => transport.getQueueDepth?.() ?? 0
+);
+metrics.addGauge(
+  'session_ready',
+  'Whether the LinkedIn session can serve requests (1) or not (0).',
+  () => (sessionMonitor.health().ready ? 1 : 0)
+);
+metrics.addGauge(
+  'session_consecutive_failures',
+  'Upstream calls in a row that timed out or failed.',
+  () => sessionMonitor.health().consecutiveFailures
+);
+metrics.addGauge(
+  'session_csrf_token_age_seconds',
+  'Time since the current CSRF token was obtained.',
+  () => sessionMonitor.health().csrfTokenAgeSeconds ?? 0
+);
 
 const linkedInService = new LinkedInService({
-  credentialsPath,
+  transport,
+  profileCache,
+  snapshotStore,
+  usageLedger,
+  metrics,
+  sessionMonitor,
+  credentialStore,
   ambientTraffic: process.env.AMBIENT_TRAFFIC === 'true',
 });
 
+const jobRunner = new JobRunner({
+  store: new JobStore({
+    dir: process.env.JOBS_DIR
+      ? path.resolve(process.env.JOBS_DIR)
+      : path.join(process.cwd(), '.jobs'),
+  }),
+  service: linkedInService,
+  callbackSecret: process.env.WEBHOOK_SECRET,
+  // Comma-separated; when set, callbacks may only go to these hosts
+  callbackAllowedHosts: (process.env.CALLBACK_ALLOWED_HOSTS || '')
+    .split(',')
+    .map((host) => host.trim())
+    .filter(Boolean),
+});
+
+// API_TOKEN, if set, keeps working as an unlimited all-scopes key
+const apiKeyStore = new ApiKeyStore({
+  file: process.env.API_KEYS_FILE
+    ? path.resolve(process.env.API_KEYS_FILE)
+    : path.join(process.cwd(), '.api-keys.json'),
+  legacyToken: process.env.API_TOKEN,
+});
+
+// Custom templates (RESUME_TEMPLATE_DIR) take precedence over built-ins
+const resumeRenderer = new ResumeRenderer({
+  templateDirs: [
+    ...(process.env.RESUME_TEMPLATE_DIR
+      ? [path.resolve(process.env.RESUME_TEMPLATE_DIR)]
+      : []),
+    BUILTIN_TEMPLATE_DIR,
+  ],
+});
+
 // ── Express app ───────────────────────────────────────────────────────
 
 const app = express();
-app.use(cors());
+
+// Request ids: a caller's own X-Request-Id is kept if it looks sane. The id
+// is echoed in the response header, added to every error envelope and
+// attached to every log line written while the request is handled.
+app.use((req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get('X-Request-Id');
+  const requestId =
+    incoming && REQUEST_ID_PATTERN.test(incoming)
+      ? incoming
+      : crypto.randomUUID();
+
+  res.set('X-Request-Id', requestId);
+  const json = res.json.bind(res);
+  res.json = (body?: any) =>
+    json(
+      body?.success === false && body.error
+        ? { ...body, error: { ...body.error, requestId } }
+        : body
+    );
+
+  withLogContext({ requestId }, next);
+});
+
+// Preflights carry no key, so allow any origin some active key allows;
+// authenticate() then checks the origin against the key actually used.
+app.use(
+  cors({
+    origin: (origin, callback) =>
+      callback(null, !origin || apiKeyStore.isOriginAllowed(origin)),
+    exposedHeaders: ['X-Request-Id'],
+  })
+);
+// Cookie exports arrive raw, in any format, and HAR captures are large
+app.use(
+  '/admin/credentials/import',
+  express.text({ type: () => true, limit: '5mb' })
+);
 app.use(express.json());
 
-// Request logger
-app.use((req: Request, _res: Response, next: NextFunction) => {
-  console.log(
-    `\n[${new Date().toISOString()}] ${req.method} ${req.path}`
-  );
+// Access log and request metrics. Metrics are labelled by route pattern so
+// ids and vanity names don't explode the series.
+app.use((req: Request, res: Response, next: NextFunction) => {
+  const started = Date.now();
+  res.on('finish', () => {
+    const route = req.route ? req.baseUrl + req.route.path : 'unmatched';
+    log.info('Request completed', {
+      method: req.method,
+      path: req.path,
+      status: res.statusCode,
+      durationMs: Date.now() - started,
+    });
+    metrics.httpRequests.inc({
+      method: req.method,
+      route,
+      status: String(res.statusCode),
+    });
+    metrics.httpDuration.observe(
+      { method: req.method, route },
+      (Date.now() - started) / 1000
+    );
+  });
+  next();
+});
+
+// Everything logged for a profile route carries the vanity name
+app.param('vanityName', (_req, _res, next, vanityName: string) => {
+  addLogContext({ vanityName });
   next();
 });
 
 // ── Auth middleware ────────────────────────────────────────────────────
 
-const authenticate = (req: Request, res: Response, next: NextFunction) => {
-  const token = req.headers['authorization']?.replace('Bearer ', '');
+/**
+ * Require a valid, unrevoked API key with `scope` (any key when omitted),
+ * called from an origin the key allows and within its hourly quota. The
+ * key is left on `res.locals.apiKey`.
+ */
+const authenticate =
+  (scope?: ApiScope) => (req: Request, res: Response, next: NextFunction) => {
+    const token = req.headers['authorization']?.replace('Bearer ', '');
 
-  if (!token) {
-    const r: ApiResponse = {
-      success: false,
-      error: {
-        code: 'UNAUTHORIZED',
-        message: 'Authorization token is required',
-        details: 'Provide a Bearer token in the Authorization header',
+    if (!token) {
+      const r: ApiResponse = {
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authorization token is required',
+          details: 'Provide a Bearer token in the Authorization header',
+        },
+      };
+      return res.status(401).json(r);
+    }
+
+    const apiKey = apiKeyStore.verify(token);
+    if (!apiKey) {
+      const r: ApiResponse = {
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Invalid authorization token',
+        },
+      };
+      return res.status(403).json(r);
+    }
+
+    if (scope && !hasScope(apiKey, scope)) {
+      const r: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INSUFFICIENT_SCOPE',
+          message: `This key lacks the ${scope} scope`,
+          details: `Key scopes: ${apiKey.scopes.join(', ')}`,
+        },
+      };
+      return res.status(403).json(r);
+    }
+
+    const origin = req.headers.origin;
+    if (origin && !originAllowed(apiKey, origin)) {
+      const r: ApiResponse = {
+        success: false,
+        error: {
+          code: 'ORIGIN_NOT_ALLOWED',
+          message: `This key may not be used from origin: ${origin}`,
+        },
+      };
+      return res.status(403).json(r);
+    }
+
+    const quota = apiKeyStore.consume(apiKey);
+    if (apiKey.hourlyQuota !== null) {
+      res.set('X-RateLimit-Limit', String(apiKey.hourlyQuota));
+      res.set('X-RateLimit-Remaining', String(quota.remaining));
+      if (quota.resetAt) {
+        res.set('X-RateLimit-Reset', String(Math.ceil(quota.resetAt / 1000)));
+      }
+    }
+    if (!quota.allowed) {
+      const retryAfter = Math.max(
+        1,
+        Math.ceil(((quota.resetAt ?? Date.now()) - Date.now()) / 1000)
+      );
+      res.set('Retry-After', String(retryAfter));
+      const r: ApiResponse = {
+        success: false,
+        error: {
+          code: 'QUOTA_EXCEEDED',
+          message: `Hourly quota of ${apiKey.hourlyQuota} requests exceeded`,
+          details: `Retry in ${retryAfter}s`,
+        },
+      };
+      return res.status(429).json(r);
+    }
+
+    res.locals.apiKey = apiKey;
+    next();
+  };
+
+// ── Health check ──────────────────────────────────────────────────────
+
+// Unauthenticated, so it says nothing about usage (see /api/v2/usage)
+app.get(
+  '/health',
+  validateRequest('getHealth'),
+  (_req: Request, res: Response) => {
+    res.json({
+      success: true,
+      data: {
+        status: sessionMonitor.health().ready ? 'healthy' : 'degraded',
+        service: 'linkedin-api-service-2 (playwright)',
+        timestamp: new Date().toISOString(),
       },
-    };
-    return res.status(401).json(r);
+    });
   }
+);
 
-  if (token !== API_TOKEN) {
-    const r: ApiResponse = {
-      success: false,
-      error: {
-        code: 'FORBIDDEN',
-        message: 'Invalid authorization token',
+// Liveness only asks whether the process answers: a restart brings back
+// neither expired cookies nor a rate-limited session
+app.get(
+  '/health/live',
+  validateRequest('getLiveness'),
+  (_req: Request, res: Response) => {
+    res.json({
+      success: true,
+      data: { status: 'alive', uptimeSeconds: Math.floor(process.uptime()) },
+    } as ApiResponse);
+  }
+);
+
+// Readiness takes the instance out of rotation while its session is unusable
+app.get(
+  '/health/ready',
+  validateRequest('getReadiness'),
+  async (_req: Request, res: Response) => {
+    await linkedInService.recheckSession();
+    const health = sessionMonitor.health();
+    if (!health.ready) {
+      return res.status(503).json({
+        success: false,
+        data: health,
+        error: {
+          code: 'SESSION_NOT_READY',
+          message: `LinkedIn session is ${health.state}`,
+        },
+      } as ApiResponse);
+    }
+    res.json({ success: true, data: health } as ApiResponse);
+  }
+);
+
+// ── Metrics ───────────────────────────────────────────────────────────
+
+app.get(
+  '/metrics',
+  authenticate('metrics:read'),
+  validateRequest('getMetrics'),
+  (_req: Request, res: Response) => {
+    res
+      .type('text/plain; version=0.0.4; charset=utf-8')
+      .send(metrics.render());
+  }
+);
+
+// ── Usage ─────────────────────────────────────────────────────────────
+
+/**
+ * Upstream LinkedIn requests by client, endpoint and kind. Admin keys see
+ * every client (or one, with `?clientId=`); other keys see only their own.
+ */
+app.get(
+  '/api/v2/usage',
+  authenticate(),
+  validateRequest('getUsage'),
+  (req: Request, res: Response) => {
+    const apiKey: ApiKeyRecord = res.locals.apiKey;
+    const hours = parseInt((req.query.hours as string) || '24', 10);
+    const days = parseInt((req.query.days as string) || '30', 10);
+
+    const clientId = hasScope(apiKey, 'admin')
+      ? (req.query.clientId as string | undefined)
+      : apiKey.id;
+    const hourly = usageLedger.hourly(hours, clientId);
+    const daily = usageLedger.daily(days, clientId);
+
+    res.json({
+      success: true,
+      data: {
+        budget: linkedInService.getHourlyUsage(),
+        clients: summarizeClients(
+          usageLedger.hourly(1, clientId),
+          hourly,
+          daily
+        ),
+        hourly,
+        daily,
       },
-    };
-    return res.status(403).json(r);
+    } as ApiResponse);
   }
+);
 
-  next();
-};
+// ── JSON Schema ───────────────────────────────────────────────────────
 
-// ── Health check ──────────────────────────────────────────────────────
+app.get(
+  '/api/v2/schema',
+  authenticate('profile:read'),
+  validateRequest('getProfileSchema'),
+  (_req: Request, res: Response) => {
+    res.type('application/schema+json').send(
+      JSON.stringify(profileDataSchema, null, 2)
+    );
+  }
+);
 
-app.get('/health', (_req: Request, res: Response) => {
-  const usage = linkedInService.getHourlyUsage();
-  res.json({
-    success: true,
-    data: {
-      status: 'healthy',
-      service: 'linkedin-api-service-2 (playwright)',
-      timestamp: new Date().toISOString(),
-      hourlyUsage: usage,
-    },
-  });
-});
+// ── API description ───────────────────────────────────────────────────
+
+app.get(
+  '/openapi.json',
+  validateRequest('getOpenApiDocument'),
+  (_req: Request, res: Response) => {
+    res.json(openApiDocument);
+  }
+);
+
+app.get(
+  '/docs',
+  validateRequest('getApiDocs'),
+  (_req: Request, res: Response) => {
+    res.type('text/html; charset=utf-8').send(apiDocsHtml);
+  }
+);
 
 // ── Full profile endpoint ─────────────────────────────────────────────
 
 app.get(
   '/api/v2/profile/:vanityName',
-  authenticate,
+  authenticate('profile:read'),
+  validateRequest('getProfile'),
   async (req: Request, res: Response) => {
     const vanityName = req.params.vanityName as string;
 
-    console.log(`\n${'═'.repeat(65)}`);
-    console.log(`🎯 [V2-Playwright] Fetching full profile: ${vanityName}`);
-    console.log(`${'═'.repeat(65)}\n`);
+    log.info('Fetching full profile');
 
     try {
-      if (!vanityName || !vanityName.trim()) {
+      const format = (req.query.format as string) || 'json';
+      const profileData = await linkedInService.fetchProfileData(vanityName, {
+        ...parseFetchOptions(req),
+        selection: parseProfileSelection(req),
+        attribution: attributionFor(req, res),
+      });
+
+      if (setCacheHeaders(req, res, profileData.metadata.cache!, format)) {
+        return res.status(304).end();
+      }
+
+      const data =
+        format === 'jsonresume' ? toJsonResume(profileData) : profileData;
+      res.json({ success: true, data } as ApiResponse);
+    } catch (error: any) {
+      sendError(res, error, vanityName);
+    }
+  }
+);
+
+// ── Streaming profile endpoint (SSE) ──────────────────────────────────
+
+app.get(
+  '/api/v2/profile/:vanityName/stream',
+  authenticate('profile:read'),
+  validateRequest('streamProfile'),
+  async (req: Request, res: Response) => {
+    const vanityName = req.params.vanityName as string;
+
+    log.info('Streaming full profile');
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      // Stop reverse proxies (nginx, Cloud Run's front end) from buffering
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    let closed = false;
+    req.on('close', () => {
+      closed = true;
+    });
+
+    const send = (event: string, data: unknown) => {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // Comment lines keep idle connections open through load balancers
+    const heartbeat = setInterval(() => {
+      if (!closed) res.write(': keep-alive\n\n');
+    }, 15000);
+
+    try {
+      const profileData = await linkedInService.fetchProfileData(vanityName, {
+        ...parseFetchOptions(req),
+        selection: parseProfileSelection(req),
+        attribution: attributionFor(req, res),
+        onProgress: (event) => {
+          if (event.type === 'basicInfo') {
+            send('basicInfo', event.basicInfo);
+          } else if (event.type === 'section') {
+            send('section', {
+              sectionType: event.sectionType,
+              count: event.items.length,
+              paging: event.paging,
+              items: event.items,
+            });
+          } else {
+            send('notice', { code: event.code, message: event.message });
+          }
+        },
+      });
+
+      send('complete', { metadata: profileData.metadata });
+    } catch (error: any) {
+      logRequestError(error);
+      send('error', {
+        status: errorStatus(error),
+        ...errorResponse(error, vanityName).error,
+        requestId: currentRequestId(),
+      });
+    } finally {
+      clearInterval(heartbeat);
+      res.end();
+    }
+  }
+);
+
+// ── Rendered resume ───────────────────────────────────────────────────
+
+app.get(
+  '/api/v2/resume/templates',
+  authenticate('profile:read'),
+  validateRequest('listResumeTemplates'),
+  (_req: Request, res: Response) => {
+    const templates = resumeRenderer.listTemplates();
+    res.json({
+      success: true,
+      data: { html: templates.html, md: templates.md, pdf: templates.html },
+    } as ApiResponse);
+  }
+);
+
+app.get(
+  '/api/v2/profile/:vanityName/resume',
+  authenticate('profile:read'),
+  validateRequest('renderResume'),
+  async (req: Request, res: Response) => {
+    const vanityName = req.params.vanityName as string;
+    const format = (req.query.format as string) || 'html';
+    const template = (req.query.template as string) || 'classic';
+
+    log.info('Rendering resume', { format, template });
+
+    try {
+      // PDF is printed from the HTML layout
+      const templateFormat: ResumeFormat = format === 'md' ? 'md' : 'html';
+      if (!resumeRenderer.hasTemplate(template, templateFormat)) {
         return res.status(400).json({
           success: false,
           error: {
-            code: 'INVALID_VANITY_NAME',
-            message: 'Vanity name is required',
+            code: 'UNKNOWN_TEMPLATE',
+            message: `No ${templateFormat} template named: ${template}`,
+            details: `Available: ${resumeRenderer.listTemplates()[templateFormat].join(', ')}`,
+          },
+        } as ApiResponse);
+      }
+
+      if (format === 'pdf' && !transport.printToPdf) {
+        return res.status(501).json({
+          success: false,
+          error: {
+            code: 'PDF_UNAVAILABLE',
+            message: `PDF rendering needs a browser; the ${transport.name} transport has none`,
           },
         } as ApiResponse);
       }
 
-      const profileData = await linkedInService.fetchProfileData(vanityName);
+      const profileData = await linkedInService.fetchProfileData(vanityName, {
+        ...parseFetchOptions(req),
+        attribution: attributionFor(req, res),
+      });
 
-      console.log(`\n✅ Request completed\n${'═'.repeat(65)}\n`);
+      const variant = `${template}-${format}`;
+      if (setCacheHeaders(req, res, profileData.metadata.cache!, variant)) {
+        return res.status(304).end();
+      }
 
-      res.json({ success: true, data: profileData } as ApiResponse);
+      const rendered = resumeRenderer.render(
+        profileData,
+        templateFormat,
+        template
+      );
+
+      if (format === 'pdf') {
+        const pdf = await transport.printToPdf!(rendered);
+        res.type('application/pdf').send(pdf);
+      } else if (format === 'md') {
+        res.type('text/markdown; charset=utf-8').send(rendered);
+      } else {
+        res.type('text/html; charset=utf-8').send(rendered);
+      }
     } catch (error: any) {
-      console.error(`\n❌ Error: ${error.message}`);
-      console.log(`${'═'.repeat(65)}\n`);
-      res.status(classifyError(error)).json(buildErrorResponse(error, vanityName));
+      sendError(res, error, vanityName);
+    }
+  }
+);
+
+// ── Snapshot history ──────────────────────────────────────────────────
+
+app.get(
+  '/api/v2/profile/:vanityName/history',
+  authenticate('profile:read'),
+  validateRequest('getProfileHistory'),
+  (req: Request, res: Response) => {
+    const vanityName = req.params.vanityName as string;
+    const snapshots = snapshotStore.list(vanityName);
+
+    res.json({
+      success: true,
+      data: { vanityName, count: snapshots.length, snapshots },
+    } as ApiResponse);
+  }
+);
+
+/**
+ * `?to=` defaults to the latest snapshot and `?from=` to the one before
+ * `to`, so a bare request shows what the most recent fetch changed.
+ */
+app.get(
+  '/api/v2/profile/:vanityName/diff',
+  authenticate('profile:read'),
+  validateRequest('diffProfile'),
+  (req: Request, res: Response) => {
+    const vanityName = req.params.vanityName as string;
+    const snapshots = snapshotStore.list(vanityName);
+
+    const to = findSnapshot(snapshots, req.query.to, snapshots.length - 1);
+    if (!to) {
+      return res.status(404).json(snapshotNotFoundResponse(req.query.to));
     }
+    const from = findSnapshot(
+      snapshots,
+      req.query.from,
+      snapshots.indexOf(to) - 1
+    );
+    if (!from) {
+      return res.status(404).json(snapshotNotFoundResponse(req.query.from));
+    }
+
+    const diff: ProfileDiff = {
+      vanityName,
+      from,
+      to,
+      ...diffProfiles(
+        snapshotStore.get(vanityName, from.id)!,
+        snapshotStore.get(vanityName, to.id)!
+      ),
+    };
+
+    res.json({ success: true, data: diff } as ApiResponse);
   }
 );
 
@@ -131,57 +795,416 @@ app.get(
 
 app.get(
   '/api/v2/profile/:vanityName/section/:sectionType',
-  authenticate,
+  authenticate('section:read'),
+  validateRequest('getSection'),
   async (req: Request, res: Response) => {
     const vanityName = req.params.vanityName as string;
-    const sectionType = req.params.sectionType as string;
+    const sectionType = req.params.sectionType as SectionType;
 
-    console.log(`\n${'═'.repeat(65)}`);
-    console.log(
-      `🎯 [V2-Playwright] Fetching [${sectionType}] for: ${vanityName}`
-    );
-    console.log(`${'═'.repeat(65)}\n`);
+    log.info('Fetching section', { section: sectionType });
 
     try {
-      if (!vanityName || !vanityName.trim()) {
+      const { items, paging, cache } = await linkedInService.fetchSingleSection(
+        vanityName,
+        sectionType,
+        { ...parseFetchOptions(req), attribution: attributionFor(req, res) }
+      );
+
+      if (setCacheHeaders(req, res, cache)) {
+        return res.status(304).end();
+      }
+      res.json({
+        success: true,
+        data: {
+          vanityName,
+          sectionType,
+          count: items.length,
+          totalCount: paging.totalCount,
+          returnedCount: paging.returnedCount,
+          items,
+          ...(sectionType === 'recommendations'
+            ? groupRecommendations(items as RecommendationItem[])
+            : {}),
+          metadata: { cache, paging },
+        },
+      } as ApiResponse);
+    } catch (error: any) {
+      sendError(res, error, vanityName);
+    }
+  }
+);
+
+// ── Async jobs ────────────────────────────────────────────────────────
+
+app.post(
+  '/api/v2/jobs',
+  authenticate('profile:read'),
+  validateRequest('createJob'),
+  async (req: Request, res: Response) => {
+    const { vanityName, callbackUrl, maxAge } = req.body || {};
+
+    if (
+      typeof vanityName !== 'string' ||
+      !VANITY_NAME_PATTERN.test(vanityName.trim())
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_VANITY_NAME',
+          message: `Invalid vanityName: ${vanityName}`,
+          details: VANITY_NAME_HINT,
+        },
+      } as ApiResponse);
+    }
+
+    if (
+      maxAge !== undefined &&
+      !(typeof maxAge === 'number' && Number.isInteger(maxAge) && maxAge >= 0)
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_MAX_AGE',
+          message: `Invalid maxAge: ${maxAge}`,
+          details: 'maxAge must be a non-negative integer number of seconds',
+        },
+      } as ApiResponse);
+    }
+
+    if (callbackUrl !== undefined) {
+      const problem =
+        typeof callbackUrl === 'string'
+          ? await jobRunner.checkCallbackUrl(callbackUrl)
+          : 'callbackUrl must be an absolute http(s) URL';
+      if (problem) {
         return res.status(400).json({
           success: false,
-          error: {
-            code: 'INVALID_VANITY_NAME',
-            message: 'Vanity name is required',
-          },
+          error: { code: 'INVALID_CALLBACK_URL', message: problem },
         } as ApiResponse);
       }
 
-      if (!VALID_SECTIONS.includes(sectionType)) {
+      if (!jobRunner.canSignCallbacks()) {
         return res.status(400).json({
           success: false,
           error: {
-            code: 'INVALID_SECTION_TYPE',
-            message: `Invalid section type: ${sectionType}`,
-            details: `Valid values: ${VALID_SECTIONS.join(', ')}`,
+            code: 'CALLBACKS_DISABLED',
+            message: 'Callbacks require WEBHOOK_SECRET to be configured',
           },
         } as ApiResponse);
       }
+    }
 
-      const items = await linkedInService.fetchSingleSection(
-        vanityName,
-        sectionType
-      );
-
-      console.log(
-        `✅ Section [${sectionType}] — ${items.length} items\n${'═'.repeat(65)}\n`
-      );
+    const job = jobRunner.enqueue(vanityName.trim(), {
+      callbackUrl,
+      maxAgeSeconds: maxAge,
+      attribution: attributionFor(req, res),
+    });
+    log.info('Queued job', { jobId: job.id, vanityName: job.vanityName });
 
-      res.json({
+    res
+      .status(202)
+      .location(`/api/v2/jobs/${job.id}`)
+      .json({
         success: true,
-        data: { vanityName, sectionType, count: items.length, items },
+        data: { ...job, queuePosition: jobRunner.getQueuePosition(job.id) },
+      } as ApiResponse);
+  }
+);
+
+app.get(
+  '/api/v2/jobs/:id',
+  authenticate('profile:read'),
+  validateRequest('getJob'),
+  (req: Request, res: Response) => {
+    const job = jobRunner.get(req.params.id as string);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'JOB_NOT_FOUND',
+          message: `No job with id: ${req.params.id}`,
+        },
+      } as ApiResponse);
+    }
+
+    res.json({
+      success: true,
+      data: { ...job, queuePosition: jobRunner.getQueuePosition(job.id) },
+    } as ApiResponse);
+  }
+);
+
+// ── Batch profiles ────────────────────────────────────────────────────
+
+app.post(
+  '/api/v2/profiles/batch',
+  authenticate('profile:read'),
+  validateRequest('createBatch'),
+  (req: Request, res: Response) => {
+    const { profiles, maxAge } = req.body || {};
+
+    if (
+      !Array.isArray(profiles) ||
+      profiles.length === 0 ||
+      profiles.length > MAX_BATCH_SIZE
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_BATCH',
+          message: `profiles must be a non-empty array of at most ${MAX_BATCH_SIZE} entries`,
+          details: 'Each entry is a vanity name or a linkedin.com/in/ URL',
+        },
+      } as ApiResponse);
+    }
+
+    if (
+      maxAge !== undefined &&
+      !(typeof maxAge === 'number' && Number.isInteger(maxAge) && maxAge >= 0)
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_MAX_AGE',
+          message: `Invalid maxAge: ${maxAge}`,
+          details: 'maxAge must be a non-negative integer number of seconds',
+        },
+      } as ApiResponse);
+    }
+
+    const accepted: Array<{ input: string; vanityName: string }> = [];
+    const rejected: Batch['rejected'] = [];
+    for (const input of profiles) {
+      const vanityName = parseProfileReference(input);
+      if (vanityName) {
+        accepted.push({ input, vanityName });
+      } else {
+        rejected.push({
+          input: String(input),
+          reason: 'Not a vanity name or linkedin.com/in/ URL',
+        });
+      }
+    }
+
+    if (accepted.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_BATCH',
+          message: 'No valid profiles in batch',
+          details: rejected,
+        },
+      } as ApiResponse);
+    }
+
+    const batch = jobRunner.enqueueBatch(accepted, rejected, {
+      maxAgeSeconds: maxAge,
+      attribution: attributionFor(req, res),
+    });
+    log.info('Queued batch', {
+      batchId: batch.id,
+      profiles: batch.entries.length,
+      estimatedCompletionAt: batch.estimate.estimatedCompletionAt,
+    });
+
+    res
+      .status(202)
+      .location(`/api/v2/profiles/batch/${batch.id}`)
+      .json({ success: true, data: describeBatch(batch) } as ApiResponse);
+  }
+);
+
+app.get(
+  '/api/v2/profiles/batch/:id',
+  authenticate('profile:read'),
+  validateRequest('getBatch'),
+  (req: Request, res: Response) => {
+    const batch = jobRunner.getBatch(req.params.id as string);
+    if (!batch) {
+      return res.status(404).json(batchNotFoundResponse(req));
+    }
+
+    res.json({ success: true, data: describeBatch(batch) } as ApiResponse);
+  }
+);
+
+app.get(
+  '/api/v2/profiles/batch/:id/results',
+  authenticate('profile:read'),
+  validateRequest('getBatchResults'),
+  (req: Request, res: Response) => {
+    const batch = jobRunner.getBatch(req.params.id as string);
+    if (!batch) {
+      return res.status(404).json(batchNotFoundResponse(req));
+    }
+
+    const format = req.query.format || 'ndjson';
+    const entries = batch.entries.map((e) => ({
+      ...e,
+      job: jobRunner.get(e.jobId),
+    }));
+
+    if (format === 'ndjson') {
+      res.type('application/x-ndjson').send(toNdjson(entries));
+    } else {
+      // Duplicate inputs share a job; export each profile once
+      const jobs = new Map(entries.map((e) => [e.jobId, e.job]));
+      const profiles = [...jobs.values()]
+        .map((job) => job?.result)
+        .filter((p): p is ProfileData => !!p);
+      res
+        .type('text/csv')
+        .attachment(`batch-${batch.id}.csv`)
+        .send(toCsv(profiles));
+    }
+  }
+);
+
+// ── Admin: API keys ───────────────────────────────────────────────────
+
+app.post(
+  '/api/v2/admin/keys',
+  authenticate('admin'),
+  validateRequest('createApiKey'),
+  (req: Request, res: Response) => {
+    const { name, scopes, hourlyQuota, allowedOrigins } = req.body || {};
+
+    const problem = validateKeyRequest(req.body || {});
+    if (problem) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_KEY_REQUEST',
+          message: problem,
+          details: `Scopes: ${API_SCOPES.join(', ')}`,
+        },
+      } as ApiResponse);
+    }
+
+    const { key, info } = apiKeyStore.create({
+      name: name.trim(),
+      scopes,
+      hourlyQuota: hourlyQuota ?? null,
+      allowedOrigins: allowedOrigins ?? [],
+    });
+    log.info('Issued API key', { keyId: info.id, keyName: info.name });
+
+    // The plain key is only ever returned here
+    res.status(201).json({ success: true, data: { ...info, key } } as ApiResponse);
+  }
+);
+
+app.get(
+  '/api/v2/admin/keys',
+  authenticate('admin'),
+  validateRequest('listApiKeys'),
+  (_req: Request, res: Response) => {
+    res.json({ success: true, data: apiKeyStore.list() } as ApiResponse);
+  }
+);
+
+app.delete(
+  '/api/v2/admin/keys/:id',
+  authenticate('admin'),
+  validateRequest('revokeApiKey'),
+  (req: Request, res: Response) => {
+    const info = apiKeyStore.revoke(req.params.id as string);
+    if (!info) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'KEY_NOT_FOUND',
+          message: `No API key with id: ${req.params.id}`,
+        },
+      } as ApiResponse);
+    }
+
+    log.info('Revoked API key', { keyId: info.id, keyName: info.name });
+    res.json({ success: true, data: info } as ApiResponse);
+  }
+);
+
+// ── Admin: LinkedIn credentials ───────────────────────────────────────
+
+/**
+ * Replace the LinkedIn session without a redeploy. The current session
+ * keeps serving until the new cookies pass a probe, and stays if they fail.
+ */
+app.put(
+  '/admin/credentials',
+  authenticate('admin'),
+  validateRequest('replaceCredentials'),
+  async (req: Request, res: Response) => {
+    const { cookies } = req.body || {};
+
+    const problem = validateCookies(cookies);
+    if (problem) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_CREDENTIALS',
+          message: problem,
+          details: `Required cookies: ${REQUIRED_COOKIES.join(', ')}`,
+        },
+      } as ApiResponse);
+    }
+
+    await swapCredentials(res, cookies);
+  }
+);
+
+app.post(
+  '/admin/credentials/import',
+  authenticate('admin'),
+  validateRequest('importCredentials'),
+  async (req: Request, res: Response) => {
+    const text = typeof req.body === 'string' ? req.body : '';
+    if (!text.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_COOKIE_EXPORT',
+          message: 'Send the cookie export as the request body',
+        },
       } as ApiResponse);
+    }
+
+    let imported;
+    try {
+      imported = parseCookieExport(
+        text,
+        req.query.format as CookieExportFormat | undefined
+      );
     } catch (error: any) {
-      console.error(`\n❌ Error: ${error.message}`);
-      console.log(`${'═'.repeat(65)}\n`);
-      res.status(classifyError(error)).json(buildErrorResponse(error, vanityName));
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_COOKIE_EXPORT',
+          message: error.message,
+          details: `Formats: ${COOKIE_EXPORT_FORMATS.join(', ')}`,
+        },
+      } as ApiResponse);
     }
+
+    // Report gaps before the session is touched or anything is saved
+    const missing = missingCookies(imported.cookies);
+    if (missing.length > 0) {
+      const found = Object.keys(imported.cookies);
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_CREDENTIALS',
+          message: `No linkedin.com cookie named: ${missing.join(', ')}`,
+          details: `Found: ${found.length > 0 ? found.join(', ') : 'none'}`,
+        },
+      } as ApiResponse);
+    }
+
+    await swapCredentials(res, imported.cookies, {
+      format: imported.format,
+      skipped: imported.skipped,
+    });
   }
 );
 
@@ -199,90 +1222,422 @@ app.use((req: Request, res: Response) => {
 
 // ── Global error handler ──────────────────────────────────────────────
 
-app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
-  console.error('Unhandled error:', err);
+app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+  // Raised by the body parsers before any route runs
+  if (err.type === 'entity.parse.failed') {
+    return res.status(400).json({
+      success: false,
+      error: { code: 'INVALID_JSON', message: err.message },
+    } as ApiResponse);
+  }
+  if (err.type === 'entity.too.large') {
+    return res.status(413).json({
+      success: false,
+      error: {
+        code: 'PAYLOAD_TOO_LARGE',
+        message: `Request body is over the ${err.limit}-byte limit`,
+      },
+    } as ApiResponse);
+  }
+
+  log.error('Unhandled error', { error: err, stack: err.stack });
   res.status(500).json({
     success: false,
     error: { code: 'INTERNAL_ERROR', message: err.message },
   } as ApiResponse);
 });
 
-// ── Error helpers ─────────────────────────────────────────────────────
+// ── Cache helpers ─────────────────────────────────────────────────────
+
+/**
+ * Freshness override from `?maxAge=<seconds>` (validated by the route's
+ * spec), falling back to the request's `Cache-Control` (`no-cache`/
+ * `no-store` or `max-age=N`).
+ */
+function parseFetchOptions(req: Request): FetchOptions {
+  const maxAge = req.query.maxAge;
+  if (typeof maxAge === 'string') {
+    return { maxAgeSeconds: parseInt(maxAge, 10) };
+  }
+
+  const cacheControl = (req.headers['cache-control'] || '').toLowerCase();
+  if (/\bno-(cache|store)\b/.test(cacheControl)) {
+    return { maxAgeSeconds: 0 };
+  }
+  const match = cacheControl.match(/\bmax-age=(\d+)/);
+  if (match) return { maxAgeSeconds: parseInt(match[1], 10) };
+
+  return {};
+}
+
+/**
+ * Parts of the profile to fetch, from `?sections=experience,languages`
+ * (default: DEFAULT_SECTIONS) and `?basic=false` (default: true), both
+ * validated by the route's spec.
+ */
+function parseProfileSelection(req: Request): ProfileSelection {
+  const { sections, basic } = req.query;
+  const requested =
+    typeof sections === 'string'
+      ? sections
+          .split(',')
+          .map((s) => s.trim())
+          .filter(Boolean)
+      : DEFAULT_SECTIONS;
+
+  return {
+    basicInfo: basic !== 'false',
+    sections: [...requested] as SectionType[],
+  };
+}
+
+/**
+ * Set validators for the cached representation. Returns true when the
+ * client's conditional request matches and a 304 should be sent.
+ * Each non-default `variant` (output format) gets its own ETag.
+ */
+function setCacheHeaders(
+  req: Request,
+  res: Response,
+  cache: CacheStatus,
+  variant = 'json'
+): boolean {
+  res.set(
+    'ETag',
+    variant === 'json' ? cache.etag : cache.etag.replace(/"$/, `-${variant}"`)
+  );
+  res.set('Last-Modified', new Date(cache.storedAt).toUTCString());
+  return req.fresh;
+}
+
+// ── Snapshot helpers ──────────────────────────────────────────────────
+
+/** The snapshot named by `id`, or the one at `defaultIndex` when absent. */
+function findSnapshot(
+  snapshots: SnapshotSummary[],
+  id: unknown,
+  defaultIndex: number
+): SnapshotSummary | null {
+  if (id === undefined) return snapshots[defaultIndex] || null;
+  return snapshots.find((snapshot) => snapshot.id === id) || null;
+}
+
+function snapshotNotFoundResponse(id: unknown): ApiResponse {
+  return {
+    success: false,
+    error: {
+      code: 'SNAPSHOT_NOT_FOUND',
+      message:
+        id === undefined
+          ? 'Not enough snapshots to compare; fetch the profile again first'
+          : `No snapshot with id: ${id}`,
+    },
+  };
+}
+
+// ── Usage helpers ─────────────────────────────────────────────────────
+
+/** Per-client totals over the usage windows, heaviest consumer first. */
+function summarizeClients(
+  lastHour: UsageRow[],
+  hourly: UsageRow[],
+  daily: UsageRow[]
+): UsageClientTotals[] {
+  const clients = new Map<string, UsageClientTotals>();
+  const add = (
+    rows: UsageRow[],
+    window: 'lastHour' | 'hourlyWindow' | 'dailyWindow'
+  ) => {
+    for (const row of rows) {
+      const client = clients.get(row.clientId) || {
+        clientId: row.clientId,
+        clientName: row.clientName,
+        lastHour: 0,
+        hourlyWindow: 0,
+        dailyWindow: 0,
+      };
+      client[window] += row.requests;
+      clients.set(row.clientId, client);
+    }
+  };
+
+  add(lastHour, 'lastHour');
+  add(hourly, 'hourlyWindow');
+  add(daily, 'dailyWindow');
+
+  return [...clients.values()].sort(
+    (a, b) => b.hourlyWindow - a.hourlyWindow || b.dailyWindow - a.dailyWindow
+  );
+}
+
+// ── API key helpers ───────────────────────────────────────────────────
+
+/** Bill upstream requests to the authenticated key and the matched route. */
+function attributionFor(req: Request, res: Response): RequestAttribution {
+  const apiKey: ApiKeyRecord = res.locals.apiKey;
+  return {
+    clientId: apiKey.id,
+    clientName: apiKey.name,
+    endpoint: `${req.method} ${req.route.path}`,
+  };
+}
+
+/** Problem with a key creation body, or null when it is valid. */
+function validateKeyRequest(body: any): string | null {
+  const { name, scopes, hourlyQuota, allowedOrigins } = body;
+
+  if (typeof name !== 'string' || !name.trim() || name.length > 100) {
+    return 'name must be a non-empty string of at most 100 characters';
+  }
+  if (
+    !Array.isArray(scopes) ||
+    scopes.length === 0 ||
+    scopes.some((scope) => !API_SCOPES.includes(scope))
+  ) {
+    return 'scopes must be a non-empty array of known scopes';
+  }
+  if (
+    hourlyQuota !== undefined &&
+    hourlyQuota !== null &&
+    !(Number.isInteger(hourlyQuota) && hourlyQuota > 0)
+  ) {
+    return 'hourlyQuota must be a positive integer, or null for unlimited';
+  }
+  if (
+    allowedOrigins !== undefined &&
+    (!Array.isArray(allowedOrigins) ||
+      allowedOrigins.some((origin) => origin !== '*' && !isOrigin(origin)))
+  ) {
+    return 'allowedOrigins must be an array of origins (https://app.example.com) or "*"';
+  }
+  return null;
+}
+
+function isOrigin(value: unknown): boolean {
+  if (!isHttpUrl(value)) return false;
+  return new URL(value as string).origin === value;
+}
+
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// ── Credential helpers ────────────────────────────────────────────────
+
+/**
+ * Swap the LinkedIn session to `cookies` and answer the request: 200 with
+ * the cookie names (values are secrets) plus `extra`, or the error.
+ */
+async function swapCredentials(
+  res: Response,
+  cookies: Record<string, string>,
+  extra: object = {}
+): Promise<void> {
+  if (!linkedInService.canReplaceCredentials()) {
+    res.status(501).json({
+      success: false,
+      error: {
+        code: 'SESSION_SWAP_UNAVAILABLE',
+        message: `The ${transport.name} transport cannot swap sessions`,
+      },
+    } as ApiResponse);
+    return;
+  }
+
+  try {
+    await linkedInService.replaceCredentials(credentialsFromCookies(cookies));
+  } catch (error: any) {
+    if (error instanceof SessionExpiredError) {
+      log.warn('Submitted credentials rejected', { error });
+      res.status(422).json({
+        success: false,
+        error: {
+          code: 'CREDENTIALS_REJECTED',
+          message: error.message,
+          details: 'The current session is still in use',
+        },
+      } as ApiResponse);
+      return;
+    }
+    return sendError(res, error);
+  }
+
+  res.json({
+    success: true,
+    data: {
+      ...extra,
+      cookies: Object.keys(cookies).sort(),
+      credentialStore: credentialStore.name,
+    },
+  } as ApiResponse);
+}
+
+/** Problem with a submitted cookie set, or null when it is usable. */
+function validateCookies(cookies: unknown): string | null {
+  if (
+    typeof cookies !== 'object' ||
+    cookies === null ||
+    Array.isArray(cookies) ||
+    Object.values(cookies).some((value) => typeof value !== 'string')
+  ) {
+    return 'cookies must be an object mapping cookie names to string values';
+  }
+
+  const missing = missingCookies(cookies as Record<string, string>);
+  if (missing.length > 0) {
+    return `Missing required cookies: ${missing.join(', ')}`;
+  }
+  return null;
+}
+
+// ── Batch helpers ─────────────────────────────────────────────────────
 
-function classifyError(error: any): number {
-  const msg: string = error.message || '';
-  if (msg.includes('Could not find profile')) return 404;
-  if (msg.includes('Credentials file not found')) return 500;
-  if (msg.includes('Session may be expired') || msg.includes('CSRF')) return 401;
-  if (msg.includes('rate limit') || msg.includes('429')) return 429;
-  return 500;
+/**
+ * Accept a bare vanity name or a profile URL such as
+ * `https://www.linkedin.com/in/<vanityName>/`.
+ */
+function parseProfileReference(input: unknown): string | null {
+  if (typeof input !== 'string') return null;
+  const value = input.trim();
+
+  const urlMatch = value.match(
+    /^(?:https?:\/\/)?(?:[\w-]+\.)?linkedin\.com\/in\/([^/?#\s]+)/i
+  );
+  const vanityName = urlMatch ? decodeURIComponent(urlMatch[1]) : value;
+
+  return VANITY_NAME_PATTERN.test(vanityName) ? vanityName : null;
 }
 
-function buildErrorResponse(error: any, vanityName: string): ApiResponse {
-  const msg: string = error.message || '';
-  let code = 'INTERNAL_ERROR';
+function describeBatch(batch: Batch) {
+  // Duplicate inputs share a job; count each job once
+  const counts = { queued: 0, running: 0, succeeded: 0, failed: 0 };
+  const counted = new Set<string>();
+  const entries = batch.entries.map((entry) => {
+    const job = jobRunner.get(entry.jobId);
+    if (job && !counted.has(job.id)) {
+      counted.add(job.id);
+      counts[job.status]++;
+    }
+    return {
+      ...entry,
+      status: job?.status ?? 'unknown',
+      progress: job?.progress ?? null,
+      error: job?.error ?? null,
+    };
+  });
 
-  if (msg.includes('Could not find profile')) code = 'PROFILE_NOT_FOUND';
-  else if (msg.includes('Credentials file not found')) code = 'CREDENTIALS_MISSING';
-  else if (msg.includes('Session may be expired') || msg.includes('CSRF')) code = 'SESSION_EXPIRED';
-  else if (msg.includes('rate limit') || msg.includes('429')) code = 'RATE_LIMITED';
+  return {
+    id: batch.id,
+    createdAt: batch.createdAt,
+    estimate: batch.estimate,
+    counts,
+    entries,
+    rejected: batch.rejected,
+  };
+}
 
+function batchNotFoundResponse(req: Request): ApiResponse {
   return {
     success: false,
     error: {
-      code,
+      code: 'BATCH_NOT_FOUND',
+      message: `No batch with id: ${req.params.id}`,
+    },
+  };
+}
+
+// ── Error helpers ─────────────────────────────────────────────────────
+
+/** HTTP status for a service error, per ERROR_CODES; otherwise 500. */
+function errorStatus(error: unknown): number {
+  return error instanceof ServiceError ? ERROR_CODES[error.code].status : 500;
+}
+
+function errorResponse(error: any, vanityName?: string): ApiResponse {
+  const known = error instanceof ServiceError;
+
+  return {
+    success: false,
+    error: {
+      code: known ? error.code : 'INTERNAL_ERROR',
       message: error.message,
-      details: `Request for profile: ${vanityName}`,
+      ...(vanityName ? { details: `Request for profile: ${vanityName}` } : {}),
+      retryable: known ? error.retryable : false,
+      ...(known && error.retryAfterSeconds !== null
+        ? { retryAfterSeconds: error.retryAfterSeconds }
+        : {}),
     },
   };
 }
 
+function logRequestError(error: any): void {
+  if (error instanceof ServiceError) {
+    log.warn('Request failed', { code: error.code, error });
+  } else {
+    log.error('Request failed', { error, stack: error?.stack });
+  }
+}
+
+function sendError(res: Response, error: any, vanityName?: string): void {
+  logRequestError(error);
+  if (error instanceof ServiceError && error.retryAfterSeconds !== null) {
+    res.setHeader('Retry-After', String(error.retryAfterSeconds));
+  }
+  res.status(errorStatus(error)).json(errorResponse(error, vanityName));
+}
+
 // ── Startup ───────────────────────────────────────────────────────────
 
+/** Listed in the startup log entry. */
+const ENDPOINTS = OPERATIONS.map(
+  (operation) => `${operation.method.toUpperCase()} ${operation.path}`
+);
+
 async function start() {
-  console.log('\n' + '═'.repeat(65));
-  console.log('🚀 LinkedIn API Service v2 (Playwright-based)');
-  console.log('═'.repeat(65));
-  console.log(`\n📁 Credentials: ${credentialsPath}`);
-  console.log(`🌐 Ambient traffic: ${process.env.AMBIENT_TRAFFIC === 'true' ? 'ON' : 'OFF'}`);
-  console.log(`👁  Headless: ${process.env.HEADLESS !== 'false' ? 'YES' : 'NO (headed)'}\n`);
-
-  console.log('Initializing browser session...\n');
+  log.info('Starting LinkedIn API Service v2 (Playwright-based)', {
+    credentialStore: credentialStore.name,
+    credentialsLocation: credentialStore.location,
+    transport: transport.name,
+    ambientTraffic: process.env.AMBIENT_TRAFFIC === 'true',
+    headless: process.env.HEADLESS !== 'false',
+  });
+
   try {
     await linkedInService.init();
   } catch (err: any) {
-    console.warn(
-      '⚠ Browser/session init failed (server will start anyway):',
-      err.message
+    log.warn(
+      'Browser/session init failed (server will start anyway). ' +
+        'Provide valid credentials (see CREDENTIALS_STORE) to enable scraping.',
+      { error: err }
     );
-    console.warn('   Mount valid linkedin-credentials.json to enable scraping.\n');
   }
 
+  jobRunner.resume();
+
   app.listen(PORT, () => {
-    console.log('\n' + '═'.repeat(65));
-    console.log(`📍 Server running on: http://localhost:${PORT}`);
-    console.log(`🔐 API Token: ${API_TOKEN}`);
-    console.log(`\n📚 Endpoints:`);
-    console.log(`   GET  /health`);
-    console.log(`   GET  /api/v2/profile/:vanityName`);
-    console.log(
-      `   GET  /api/v2/profile/:vanityName/section/:sectionType`
-    );
-    console.log(
-      `\n   Sections: ${VALID_SECTIONS.join(', ')}`
-    );
-    console.log(`\n📖 Example:`);
-    console.log(
-      `   curl -H "Authorization: Bearer ${API_TOKEN}" \\`
-    );
-    console.log(`        http://localhost:${PORT}/api/v2/profile/nikiljos`);
-    console.log('\n' + '═'.repeat(65) + '\n');
+    log.info('Server running', {
+      url: `http://localhost:${PORT}`,
+      activeApiKeys: apiKeyStore.activeCount(),
+      legacyApiToken: apiKeyStore.hasLegacyToken(),
+      endpoints: ENDPOINTS,
+      sections: VALID_SECTIONS,
+      defaultSections: DEFAULT_SECTIONS,
+    });
+    if (apiKeyStore.activeCount() === 0 && !apiKeyStore.hasLegacyToken()) {
+      log.warn('No API keys and no API_TOKEN: every request will be rejected');
+    }
   });
 }
 
 // Graceful shutdown
 process.on('SIGINT', async () => {
-  console.log('\n🛑 Shutting down...');
+  log.info('Shutting down');
   await linkedInService.shutdown();
   process.exit(0);
 });
@@ -293,7 +1648,7 @@ process.on('SIGTERM', async () => {
 });
 
 start().catch((err) => {
-  console.error('❌ Failed to start service:', err.message);
+  log.error('Failed to start service', { error: err });
   process.exit(1);
 });
 
@@ -0,0 +1,164 @@
+import { log } from './logger';
+import { VoyagerTransport } from './transports';
+import { BrowserApiResult } from './types';
+
+/**
+ * - `down`: the transport is not ready (no browser, or startup failed).
+ * - `expired`: LinkedIn answered 401/403 since the session was set up.
+ * - `failing`: too many upstream calls in a row timed out or failed.
+ * - `stale`: the CSRF token is older than the configured maximum.
+ * - `unverified`: set up, but no upstream call has succeeded yet.
+ * - `valid`: the last upstream call went through.
+ */
+export type SessionState =
+  | 'down'
+  | 'expired'
+  | 'failing'
+  | 'stale'
+  | 'unverified'
+  | 'valid';
+
+export interface SessionHealth {
+  /** Whether the instance should receive traffic. */
+  ready: boolean;
+  state: SessionState;
+  transportReady: boolean;
+  lastSuccessAt: string | null;
+  /** Seconds since this process obtained the current CSRF token. */
+  csrfTokenAgeSeconds: number | null;
+  consecutiveFailures: number;
+}
+
+/**
+ * Judges whether the LinkedIn session can still serve requests, from the
+ * transport's own readiness and the outcome of every upstream call.
+ *
+ * Rate limiting and other 4xx answers say nothing about the session, so
+ * they leave the failure count alone.
+ *
+ * An instance that is `failing` or `expired` gets no traffic once readiness
+ * reports it, so no request would ever clear the state. `recheck` probes
+ * the session instead, at most once per `reprobeIntervalSeconds`.
+ */
+export class SessionMonitor {
+  private transport: VoyagerTransport;
+  private maxConsecutiveFailures: number;
+  private maxTokenAgeSeconds: number | null;
+  private reprobeIntervalMs: number;
+
+  private tokenObtainedAt: number | null = null;
+  private lastSuccessAt: number | null = null;
+  private consecutiveFailures = 0;
+  private expired = false;
+  private lastProbeAt = 0;
+  private probing: Promise<void> | null = null;
+
+  constructor(options: {
+    transport: VoyagerTransport;
+    maxConsecutiveFailures?: number;
+    /** Null (the default) never treats a token as stale. */
+    maxTokenAgeSeconds?: number | null;
+    reprobeIntervalSeconds?: number;
+  }) {
+    this.transport = options.transport;
+    this.maxConsecutiveFailures = options.maxConsecutiveFailures ?? 5;
+    this.maxTokenAgeSeconds = options.maxTokenAgeSeconds ?? null;
+    this.reprobeIntervalMs = (options.reprobeIntervalSeconds ?? 300) * 1000;
+  }
+
+  /** A session was set up: at startup, by a refresh or by a swap. */
+  sessionStarted(): void {
+    this.tokenObtainedAt = Date.now();
+    this.consecutiveFailures = 0;
+    this.expired = false;
+  }
+
+  recordResult(result: BrowserApiResult): void {
+    if (!result.error) {
+      this.lastSuccessAt = Date.now();
+      this.consecutiveFailures = 0;
+      this.expired = false;
+    } else if (result.status === 401 || result.status === 403) {
+      this.expired = true;
+    } else if (result.timedOut || result.status === 0 || result.status >= 500) {
+      this.consecutiveFailures++;
+    }
+  }
+
+  /** The transport threw instead of returning a result. */
+  recordFailure(): void {
+    this.consecutiveFailures++;
+  }
+
+  /**
+   * While `failing` or `expired`, run `probe` so a recovered upstream or
+   * session puts the instance back in rotation. The probe is an upstream
+   * call that reports its own outcome through `recordResult`, and until
+   * the interval passes the last outcome stands. Concurrent callers share
+   * one probe.
+   */
+  async recheck(probe: () => Promise<unknown>): Promise<void> {
+    if (this.probing) return this.probing;
+    const state = this.state(this.transport.isReady());
+    if (
+      (state !== 'failing' && state !== 'expired') ||
+      Date.now() - this.lastProbeAt < this.reprobeIntervalMs
+    ) {
+      return;
+    }
+
+    this.lastProbeAt = Date.now();
+    this.probing = probe()
+      .then(
+        () => log.info('Session re-probed', { state: this.health().state }),
+        (err) => log.warn('Session re-probe failed', { error: err })
+      )
+      .finally(() => {
+        this.probing = null;
+      });
+    return this.probing;
+  }
+
+  health(): SessionHealth {
+    const transportReady = this.transport.isReady();
+    const state = this.state(transportReady);
+
+    return {
+      ready: state === 'valid' || state === 'unverified',
+      state,
+      transportReady,
+      lastSuccessAt: this.lastSuccessAt
+        ? new Date(this.lastSuccessAt).toISOString()
+        : null,
+      csrfTokenAgeSeconds: this.tokenAgeSeconds(),
+      consecutiveFailures: this.consecutiveFailures,
+    };
+  }
+
+  private state(transportReady: boolean): SessionState {
+    if (!transportReady) return 'down';
+    if (this.expired) return 'expired';
+    if (this.consecutiveFailures >= this.maxConsecutiveFailures) {
+      return 'failing';
+    }
+    const age = this.tokenAgeSeconds();
+    if (
+      this.maxTokenAgeSeconds !== null &&
+      age !== null &&
+      age > this.maxTokenAgeSeconds
+    ) {
+      return 'stale';
+    }
+    const verified =
+      this.lastSuccessAt !== null &&
+      this.tokenObtainedAt !== null &&
+      this.lastSuccessAt >= this.tokenObtainedAt;
+    return verified ? 'valid' : 'unverified';
+  }
+
+  private tokenAgeSeconds(): number | null {
+    return this.tokenObtainedAt === null
+      ? null
+      : Math.floor((Date.now() - this.tokenObtainedAt) / 1000);
+  }
+}
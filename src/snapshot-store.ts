@@ -0,0 +1,75 @@
+import fs from 'fs';
+import path from 'path';
+import { log } from './logger';
+import { ProfileData, SnapshotSummary } from './types';
+
+/**
+ * File-backed history of fetched profiles: every live `fetchProfileData`
+ * result is kept under `<dir>/<vanityName>/<id>.json`, where the id is the
+ * fetch time. Snapshots are never rewritten or evicted.
+ */
+export class SnapshotStore {
+  private dir: string;
+
+  constructor(options?: { dir?: string }) {
+    this.dir = options?.dir || path.join(process.cwd(), '.snapshots');
+  }
+
+  save(profile: ProfileData): SnapshotSummary {
+    const { cache: _cache, ...metadata } = profile.metadata;
+    const snapshot: ProfileData = { ...profile, metadata };
+    const id = profile.metadata.fetchedAt.replace(/[:.]/g, '-');
+
+    const dir = this.dirFor(profile.metadata.vanityName);
+    fs.mkdirSync(dir, { recursive: true });
+
+    // Write-then-rename so a crash never leaves a half-written snapshot behind
+    const file = path.join(dir, `${id}.json`);
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(snapshot));
+    fs.renameSync(`${file}.tmp`, file);
+
+    return summarize(id, snapshot);
+  }
+
+  /** Snapshots of a profile, oldest first. */
+  list(vanityName: string): SnapshotSummary[] {
+    const dir = this.dirFor(vanityName);
+    if (!fs.existsSync(dir)) return [];
+
+    const summaries: SnapshotSummary[] = [];
+    for (const file of fs.readdirSync(dir).sort()) {
+      if (!file.endsWith('.json')) continue;
+      const id = file.replace(/\.json$/, '');
+      const snapshot = this.get(vanityName, id);
+      if (snapshot) summaries.push(summarize(id, snapshot));
+    }
+    return summaries;
+  }
+
+  get(vanityName: string, id: string): ProfileData | null {
+    // Ids come from request parameters; never let one escape the directory
+    if (!/^[\w-]+$/.test(id)) return null;
+
+    const file = path.join(this.dirFor(vanityName), `${id}.json`);
+    if (!fs.existsSync(file)) return null;
+
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch {
+      log.warn('Skipping unreadable snapshot', { file });
+      return null;
+    }
+  }
+
+  private dirFor(vanityName: string): string {
+    return path.join(this.dir, encodeURIComponent(vanityName.toLowerCase()));
+  }
+}
+
+function summarize(id: string, snapshot: ProfileData): SnapshotSummary {
+  return {
+    id,
+    fetchedAt: snapshot.metadata.fetchedAt,
+    skipped: snapshot.metadata.skipped,
+  };
+}
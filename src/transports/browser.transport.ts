@@ -0,0 +1,84 @@
+import { BrowserManager } from '../browser-manager';
+import { BrowserApiResult, LinkedInCredentials } from '../types';
+import {
+  SESSION_PROBE_PATH,
+  VOYAGER_ORIGIN,
+  VoyagerTransport,
+} from './transport';
+
+/**
+ * Sends Voyager calls through a real Chromium session (see BrowserManager).
+ * This is the only transport that works against linkedin.com itself.
+ */
+export class BrowserTransport implements VoyagerTransport {
+  readonly name = 'browser';
+
+  private browser = new BrowserManager();
+  private headless: boolean;
+
+  constructor(options?: { headless?: boolean }) {
+    this.headless = options?.headless ?? true;
+  }
+
+  async init(credentials: LinkedInCredentials): Promise<void> {
+    await this.browser.init({
+      cookies: toBrowserCookies(credentials),
+      headless: this.headless,
+    });
+  }
+
+  request(path: string): Promise<BrowserApiResult> {
+    return this.browser.makeApiCall(VOYAGER_ORIGIN + path);
+  }
+
+  isReady(): boolean {
+    return this.browser.isReady();
+  }
+
+  close(): Promise<void> {
+    return this.browser.close();
+  }
+
+  navigateTo(path: string): Promise<void> {
+    return this.browser.navigateTo(VOYAGER_ORIGIN + path);
+  }
+
+  scrollPage(): Promise<void> {
+    return this.browser.scrollPage();
+  }
+
+  refreshSessionViaLogin(
+    email: string,
+    password: string
+  ): Promise<{ csrfToken: string; cookies: Record<string, string> }> {
+    return this.browser.refreshSessionViaLogin(email, password);
+  }
+
+  getSessionRefreshCount(): number {
+    return this.browser.getSessionRefreshCount();
+  }
+
+  swapSession(credentials: LinkedInCredentials): Promise<void> {
+    return this.browser.swapSession(
+      { cookies: toBrowserCookies(credentials), headless: this.headless },
+      VOYAGER_ORIGIN + SESSION_PROBE_PATH
+    );
+  }
+
+  getQueueDepth(): number {
+    return this.browser.getQueueDepth();
+  }
+
+  printToPdf(html: string): Promise<Buffer> {
+    return this.browser.printToPdf(html);
+  }
+}
+
+function toBrowserCookies(credentials: LinkedInCredentials) {
+  return Object.entries(credentials.cookies).map(([name, value]) => ({
+    name,
+    value: String(value),
+    domain: '.linkedin.com',
+    path: '/',
+  }));
+}
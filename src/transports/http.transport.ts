@@ -0,0 +1,109 @@
+import { upstreamError } from '../errors';
+import { BrowserApiResult, LinkedInCredentials } from '../types';
+import {
+  buildVoyagerHeaders,
+  SESSION_PROBE_PATH,
+  VoyagerTransport,
+} from './transport';
+
+/**
+ * Sends Voyager calls as plain HTTP requests to a configurable base URL.
+ *
+ * Intended for a local mock Voyager server — linkedin.com itself rejects
+ * non-browser clients (TLS fingerprint / PerimeterX checks).
+ */
+export class HttpTransport implements VoyagerTransport {
+  readonly name = 'http';
+
+  private baseUrl: string;
+  private timeoutMs: number;
+  private csrfToken = '';
+  private cookieHeader = '';
+  private ready = false;
+
+  constructor(options: { baseUrl: string; timeoutMs?: number }) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.timeoutMs = options.timeoutMs ?? 30000;
+  }
+
+  async init(credentials: LinkedInCredentials): Promise<void> {
+    this.csrfToken = credentials.csrfToken;
+    this.cookieHeader = toCookieHeader(credentials);
+    this.ready = true;
+  }
+
+  async request(path: string): Promise<BrowserApiResult> {
+    if (!this.ready) {
+      throw new Error('HTTP transport not initialized. Call init() first.');
+    }
+    return this.send(path, this.csrfToken, this.cookieHeader);
+  }
+
+  async swapSession(credentials: LinkedInCredentials): Promise<void> {
+    const cookieHeader = toCookieHeader(credentials);
+    const probe = await this.send(
+      SESSION_PROBE_PATH,
+      credentials.csrfToken,
+      cookieHeader
+    );
+    if (probe.error) {
+      throw upstreamError(probe, 'Session probe');
+    }
+
+    this.csrfToken = credentials.csrfToken;
+    this.cookieHeader = cookieHeader;
+    this.ready = true;
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  async close(): Promise<void> {
+    this.ready = false;
+  }
+
+  private async send(
+    path: string,
+    csrfToken: string,
+    cookieHeader: string
+  ): Promise<BrowserApiResult> {
+    try {
+      const resp = await fetch(this.baseUrl + path, {
+        method: 'GET',
+        headers: {
+          ...buildVoyagerHeaders(csrfToken),
+          cookie: cookieHeader,
+        },
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+
+      if (!resp.ok) {
+        const text = await resp.text().catch(() => '');
+        return {
+          error: true,
+          status: resp.status,
+          statusText: resp.statusText,
+          data: text,
+          retryAfter: resp.headers.get('retry-after') ?? undefined,
+        };
+      }
+
+      const json = await resp.json();
+      return { error: false, status: resp.status, data: json };
+    } catch (err: any) {
+      return {
+        error: true,
+        status: 0,
+        statusText: err?.message || 'Unknown error',
+        timedOut: err?.name === 'TimeoutError',
+      };
+    }
+  }
+}
+
+function toCookieHeader(credentials: LinkedInCredentials): string {
+  return Object.entries(credentials.cookies)
+    .map(([name, value]) => `${name}=${value}`)
+    .join('; ');
+}
@@ -0,0 +1,9 @@
+export {
+  SESSION_PROBE_PATH,
+  VOYAGER_ORIGIN,
+  VoyagerTransport,
+  buildVoyagerHeaders,
+} from './transport';
+export { BrowserTransport } from './browser.transport';
+export { HttpTransport } from './http.transport';
+export { ReplayTransport, RecordedResponse } from './replay.transport';
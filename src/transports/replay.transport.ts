@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { BrowserApiResult, LinkedInCredentials } from '../types';
+import { VoyagerTransport } from './transport';
+
+/** On-disk format of a single recorded Voyager response. */
+export interface RecordedResponse {
+  path: string;
+  recordedAt: string;
+  status: number;
+  statusText?: string;
+  data?: any;
+}
+
+/**
+ * Serves Voyager responses recorded to disk, one JSON file per request path.
+ *
+ * When constructed with `recordFrom`, requests that have no recording yet
+ * are forwarded to that transport and the response is written to disk, so
+ * a live session can be captured once and replayed offline afterwards.
+ */
+export class ReplayTransport implements VoyagerTransport {
+  readonly name = 'replay';
+
+  private dir: string;
+  private recordFrom: VoyagerTransport | null;
+  private ready = false;
+
+  constructor(options: { dir: string; recordFrom?: VoyagerTransport }) {
+    this.dir = options.dir;
+    this.recordFrom = options.recordFrom ?? null;
+  }
+
+  async init(credentials: LinkedInCredentials): Promise<void> {
+    if (this.recordFrom) {
+      fs.mkdirSync(this.dir, { recursive: true });
+      await this.recordFrom.init(credentials);
+    } else if (!fs.existsSync(this.dir)) {
+      throw new Error(`Replay directory not found at: ${this.dir}`);
+    }
+    this.ready = true;
+  }
+
+  async request(requestPath: string): Promise<BrowserApiResult> {
+    const file = this.fileFor(requestPath);
+
+    if (fs.existsSync(file)) {
+      const recorded: RecordedResponse = JSON.parse(
+        fs.readFileSync(file, 'utf-8')
+      );
+      return {
+        error: recorded.status < 200 || recorded.status >= 300,
+        status: recorded.status,
+        statusText: recorded.statusText,
+        data: recorded.data,
+      };
+    }
+
+    if (!this.recordFrom) {
+      return {
+        error: true,
+        status: 404,
+        statusText: `No recorded response for ${requestPath}`,
+      };
+    }
+
+    const result = await this.recordFrom.request(requestPath);
+
+    // Network failures (status 0) say nothing about the upstream; don't pin them
+    if (result.status === 0) return result;
+
+    const recorded: RecordedResponse = {
+      path: requestPath,
+      recordedAt: new Date().toISOString(),
+      status: result.status,
+      statusText: result.statusText,
+      data: result.data,
+    };
+    fs.writeFileSync(file, JSON.stringify(recorded, null, 2));
+    return result;
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  async close(): Promise<void> {
+    this.ready = false;
+    if (this.recordFrom) await this.recordFrom.close();
+  }
+
+  private fileFor(requestPath: string): string {
+    const hash = crypto
+      .createHash('sha1')
+      .update(requestPath)
+      .digest('hex')
+      .slice(0, 16);
+    return path.join(this.dir, `${hash}.json`);
+  }
+}
@@ -0,0 +1,78 @@
+import { BrowserApiResult, LinkedInCredentials } from '../types';
+
+export const VOYAGER_ORIGIN = 'https://www.linkedin.com';
+
+/** A cheap call that only succeeds for a logged-in session. */
+export const SESSION_PROBE_PATH = '/voyager/api/me';
+
+/**
+ * Carries Voyager API requests to LinkedIn, or to a local stand-in for it.
+ *
+ * Paths are origin-relative (e.g. `/voyager/api/graphql?...`); each
+ * transport decides which host actually serves them. The optional methods
+ * are capabilities only a real browser session has — callers must check
+ * for them before use.
+ */
+export interface VoyagerTransport {
+  /** Human-readable name for logs and startup output. */
+  readonly name: string;
+
+  init(credentials: LinkedInCredentials): Promise<void>;
+
+  request(path: string): Promise<BrowserApiResult>;
+
+  isReady(): boolean;
+
+  close(): Promise<void>;
+
+  /** Load a page in the session (for ambient traffic). */
+  navigateTo?(path: string): Promise<void>;
+
+  /** Scroll the current page (for ambient traffic). */
+  scrollPage?(): Promise<void>;
+
+  /** Log in again and return the fresh session so it can be persisted. */
+  refreshSessionViaLogin?(
+    email: string,
+    password: string
+  ): Promise<{ csrfToken: string; cookies: Record<string, string> }>;
+
+  getSessionRefreshCount?(): number;
+
+  /**
+   * Move to the session in `credentials` without downtime. It is probed
+   * (SESSION_PROBE_PATH) before the swap; if LinkedIn rejects it, this
+   * throws and the current session stays in place.
+   */
+  swapSession?(credentials: LinkedInCredentials): Promise<void>;
+
+  /** Requests waiting for the transport to become free. */
+  getQueueDepth?(): number;
+
+  /** Print an HTML document to PDF with the transport's browser. */
+  printToPdf?(html: string): Promise<Buffer>;
+}
+
+/**
+ * Request headers the Voyager web client sends with every API call.
+ */
+export function buildVoyagerHeaders(csrfToken: string): Record<string, string> {
+  return {
+    accept: 'application/vnd.linkedin.normalized+json+2.1',
+    'csrf-token': csrfToken,
+    'x-li-lang': 'en_US',
+    'x-restli-protocol-version': '2.0.0',
+    'x-li-track': JSON.stringify({
+      clientVersion: '1.13.42450',
+      mpVersion: '1.13.42450',
+      osName: 'web',
+      timezoneOffset: 5.5,
+      timezone: 'Asia/Calcutta',
+      deviceFormFactor: 'DESKTOP',
+      mpName: 'voyager-web',
+      displayDensity: 2,
+      displayWidth: 5120,
+      displayHeight: 2880,
+    }),
+  };
+}
@@ -6,29 +6,341 @@ export interface LinkedInCredentials {
   lastUpdated?: string;
 }
 
+// ── Section items ─────────────────────────────────────────────────────
+//
+// Every field LinkedIn may omit is `string | null`; the service never
+// emits placeholder strings such as 'N/A'.
+
+/** `month` is 1–12, or null when the caption only gives a year. */
+export interface YearMonth {
+  year: number;
+  month: number | null;
+}
+
+/**
+ * Structured form of an item's date caption (see parseDateRange).
+ * The raw caption fields are kept alongside for display.
+ */
+export interface DateRange {
+  start: YearMonth | null;
+  end: YearMonth | null;
+  isCurrent: boolean;
+  durationMonths: number | null;
+}
+
+export interface ExperienceItem extends DateRange {
+  title: string | null;
+  company: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  duration: string | null;
+  location: string | null;
+  description: string | null;
+}
+
+export interface EducationItem extends DateRange {
+  schoolName: string | null;
+  degree: string | null;
+  dates: string | null;
+  additionalInfo: string | null;
+}
+
+export interface SkillItem {
+  name: string | null;
+  endorsements: string | null;
+}
+
+export interface ProjectItem extends DateRange {
+  title: string | null;
+  description: string | null;
+  date: string | null;
+}
+
+export interface CertificationItem extends DateRange {
+  name: string | null;
+  organization: string | null;
+  issueDate: string | null;
+}
+
+export interface VolunteeringItem extends DateRange {
+  role: string | null;
+  organization: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  duration: string | null;
+  cause: string | null;
+  description: string | null;
+}
+
+/** LinkedIn's five fixed proficiency levels, from its English captions. */
+export type LanguageProficiency =
+  | 'elementary'
+  | 'limited-working'
+  | 'professional-working'
+  | 'full-professional'
+  | 'native-or-bilingual';
+
+export interface LanguageItem {
+  name: string | null;
+  /** Caption as shown, e.g. "Full professional proficiency". */
+  proficiency: string | null;
+  proficiencyLevel: LanguageProficiency | null;
+}
+
+export interface HonorItem extends DateRange {
+  title: string | null;
+  issuer: string | null;
+  issueDate: string | null;
+  description: string | null;
+}
+
+export interface PublicationItem extends DateRange {
+  title: string | null;
+  publisher: string | null;
+  publishedDate: string | null;
+  description: string | null;
+}
+
+export interface CourseItem {
+  name: string | null;
+  number: string | null;
+}
+
+export interface PatentItem extends DateRange {
+  title: string | null;
+  /** Patent or application number, e.g. "US 10,123,456". */
+  number: string | null;
+  /** Status and date as shown, e.g. "Issued Mar 2021". */
+  status: string | null;
+  description: string | null;
+}
+
+export interface TestScoreItem extends DateRange {
+  name: string | null;
+  score: string | null;
+  date: string | null;
+  description: string | null;
+}
+
+export interface OrganizationItem extends DateRange {
+  name: string | null;
+  position: string | null;
+  dates: string | null;
+  description: string | null;
+}
+
+export type RecommendationDirection = 'received' | 'given';
+
+export interface RecommendationItem {
+  direction: RecommendationDirection;
+  /** The other party: the recommender when received, the recipient when given. */
+  name: string | null;
+  headline: string | null;
+  /** e.g. "Jane managed Asha directly". */
+  relationship: string | null;
+  /** Date as shown, e.g. "March 5, 2023". */
+  date: string | null;
+  /** ISO `YYYY-MM-DD`, when the date could be read. */
+  isoDate: string | null;
+  text: string | null;
+}
+
+/** Recommendations as embedded in ProfileData, split by direction. */
+export interface Recommendations {
+  received: RecommendationItem[];
+  given: RecommendationItem[];
+}
+
+/** Item type returned for each `sectionType` accepted by the section API. */
+export interface SectionItemMap {
+  experience: ExperienceItem;
+  education: EducationItem;
+  skills: SkillItem;
+  projects: ProjectItem;
+  certifications: CertificationItem;
+  'volunteering-experiences': VolunteeringItem;
+  languages: LanguageItem;
+  honors: HonorItem;
+  publications: PublicationItem;
+  courses: CourseItem;
+  patents: PatentItem;
+  'test-scores': TestScoreItem;
+  organizations: OrganizationItem;
+  recommendations: RecommendationItem;
+}
+
+export type SectionType = keyof SectionItemMap;
+
+export type SectionItem = SectionItemMap[SectionType];
+
+/** Where a response came from and how old it is (see ProfileCache). */
+export interface CacheStatus {
+  hit: boolean;
+  storedAt: string;
+  ageSeconds: number;
+  etag: string;
+}
+
+export type ProfileNoticeCode =
+  | 'soft-limit'
+  | 'session-refreshed'
+  | 'session-refresh-failed'
+  | 'cooldown';
+
+/**
+ * Emitted by `fetchProfileData` as each part of the profile becomes
+ * available. A cache hit replays `basicInfo` and every selected `section`
+ * at once; skipped parts emit nothing.
+ */
+export type ProfileProgressEvent =
+  | { type: 'basicInfo'; basicInfo: ProfileData['basicInfo'] }
+  | {
+      type: 'section';
+      sectionType: SectionType;
+      items: SectionItem[];
+      paging: SectionPaging;
+    }
+  | { type: 'notice'; code: ProfileNoticeCode; message: string };
+
+/** A part of a profile that a fetch can include or skip. */
+export type ProfilePart = 'basicInfo' | SectionType;
+
+/**
+ * Which parts of a profile to fetch. Every selected section costs a request
+ * from the hourly budget; skipped parts come back empty and are listed in
+ * `metadata.skipped`. The default covers the basic info and the six core
+ * sections (DEFAULT_SECTIONS); the others are fetched only when selected.
+ */
+export interface ProfileSelection {
+  basicInfo: boolean;
+  sections: SectionType[];
+}
+
+/** Who upstream LinkedIn requests are made for (see UsageLedger). */
+export interface RequestAttribution {
+  clientId: string;
+  clientName: string;
+  /** Route that caused the requests, e.g. `GET /api/v2/profile/:vanityName`. */
+  endpoint: string;
+}
+
+export type UpstreamRequestKind =
+  | 'urn-lookup'
+  | 'basic-profile'
+  | 'section'
+  | 'section-retry'
+  | 'session-probe';
+
+export interface FetchOptions {
+  /** Freshness override; `0` bypasses the cache. */
+  maxAgeSeconds?: number;
+  /** Defaults to an `internal` client. */
+  attribution?: RequestAttribution;
+  /** Defaults to the basic info and DEFAULT_SECTIONS. */
+  selection?: ProfileSelection;
+  onProgress?: (event: ProfileProgressEvent) => void;
+}
+
+/**
+ * How much of a section was retrieved, in top-level entries (a grouped
+ * company counts once). `returnedCount < totalCount` means truncated.
+ */
+export interface SectionPaging {
+  totalCount: number;
+  returnedCount: number;
+  pages: number;
+}
+
+export interface SectionResult<K extends SectionType = SectionType> {
+  items: SectionItemMap[K][];
+  paging: SectionPaging;
+  cache: CacheStatus;
+}
+
 export interface ProfileData {
   metadata: {
     fetchedAt: string;
     profileUrn: string;
     vanityName: string;
     apiVersion: string;
+    warning?: string;
+    cache?: CacheStatus;
+    sections: Partial<Record<SectionType, SectionPaging>>;
+    /** Parts left out by the selection; their fields are empty. */
+    skipped: ProfilePart[];
+    /** Selected sections that were fetched and had no items. */
+    emptySections: SectionType[];
+    /**
+     * Selected sections whose request failed or hit a soft limit; their
+     * items may be missing. Absent from profiles stored before it existed.
+     */
+    incompleteSections?: SectionType[];
   };
   basicInfo: {
-    firstName: string;
-    lastName: string;
-    publicIdentifier: string;
-    headline: string;
+    firstName: string | null;
+    lastName: string | null;
+    publicIdentifier: string | null;
+    headline: string | null;
     summary: string | null;
     location: string | null;
     profilePicture: string | null;
     premium: boolean;
   };
-  experience: any[];
-  education: any[];
-  skills: any[];
-  projects: any[];
-  certifications: any[];
-  volunteeringExperiences: any[];
+  experience: ExperienceItem[];
+  education: EducationItem[];
+  skills: SkillItem[];
+  projects: ProjectItem[];
+  certifications: CertificationItem[];
+  volunteeringExperiences: VolunteeringItem[];
+  languages: LanguageItem[];
+  honors: HonorItem[];
+  publications: PublicationItem[];
+  courses: CourseItem[];
+  patents: PatentItem[];
+  testScores: TestScoreItem[];
+  organizations: OrganizationItem[];
+  recommendations: Recommendations;
+}
+
+// ── Snapshots ─────────────────────────────────────────────────────────
+
+/** A stored `fetchProfileData` result, as listed by SnapshotStore. */
+export interface SnapshotSummary {
+  /** The fetch time, made filename-safe (`2026-04-15T09-30-00-000Z`). */
+  id: string;
+  fetchedAt: string;
+  skipped: ProfilePart[];
+}
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface SectionDiff<T> {
+  added: T[];
+  removed: T[];
+  modified: Array<{ key: string; from: T; to: T; changes: FieldChange[] }>;
+}
+
+/**
+ * Changes between two profiles. Section items are matched by a stable
+ * per-section key (see profile-diff), so reordering is not a change.
+ * Parts skipped by either profile, or incomplete in either, are listed in
+ * `notCompared`.
+ */
+export interface ProfileChanges {
+  changed: boolean;
+  basicInfo: FieldChange[];
+  sections: Partial<{ [K in SectionType]: SectionDiff<SectionItemMap[K]> }>;
+  notCompared: ProfilePart[];
+}
+
+export interface ProfileDiff extends ProfileChanges {
+  vanityName: string;
+  from: SnapshotSummary;
+  to: SnapshotSummary;
 }
 
 export interface ApiResponse<T = any> {
@@ -38,6 +350,11 @@ export interface ApiResponse<T = any> {
     code: string;
     message: string;
     details?: any;
+    /** Set for upstream failures: whether retrying the request may help. */
+    retryable?: boolean;
+    retryAfterSeconds?: number;
+    /** Matches the X-Request-Id header and the server's log lines. */
+    requestId?: string;
   };
 }
 
@@ -47,4 +364,100 @@ export interface BrowserApiResult {
   statusText?: string;
   body?: string;
   data?: any;
+  /** Retry-After header of a 429 response. */
+  retryAfter?: string;
+  /** The request was abandoned after the transport's timeout. */
+  timedOut?: boolean;
+}
+
+// ── API keys ──────────────────────────────────────────────────────────
+
+export type ApiScope =
+  | 'profile:read'
+  | 'section:read'
+  | 'metrics:read'
+  | 'admin';
+
+/** A client API key as stored; the key itself is only kept as a hash. */
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  /** First characters of the key, to tell keys apart in listings. */
+  prefix: string;
+  /** sha256 of the key, hex. */
+  keyHash: string;
+  scopes: ApiScope[];
+  /** Requests allowed per rolling hour; null for unlimited. */
+  hourlyQuota: number | null;
+  /** Browser origins allowed to call with this key; `*` allows any. */
+  allowedOrigins: string[];
+  createdAt: string;
+  revokedAt: string | null;
+}
+
+/** ApiKeyRecord as returned by the admin API. */
+export type ApiKeyInfo = Omit<ApiKeyRecord, 'keyHash'>;
+
+// ── Usage ─────────────────────────────────────────────────────────────
+
+/** Upstream requests in one period (hour or day) for one client/endpoint/kind. */
+export interface UsageRow {
+  /** ISO start of the hour or UTC day. */
+  period: string;
+  clientId: string;
+  clientName: string;
+  endpoint: string;
+  kind: UpstreamRequestKind;
+  requests: number;
+}
+
+/** One client's upstream requests over each `/api/v2/usage` window. */
+export interface UsageClientTotals {
+  clientId: string;
+  clientName: string;
+  lastHour: number;
+  hourlyWindow: number;
+  dailyWindow: number;
+}
+
+// ── Jobs ──────────────────────────────────────────────────────────────
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface Job {
+  id: string;
+  vanityName: string;
+  status: JobStatus;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  progress: {
+    basicInfo: boolean;
+    sections: Partial<Record<SectionType, { items: number }>>;
+    completedSections: number;
+    totalSections: number;
+  };
+  fetchOptions: { maxAgeSeconds?: number };
+  /** The client that queued the job; its upstream requests are billed to it. */
+  attribution: RequestAttribution | null;
+  callback: {
+    url: string;
+    status: 'pending' | 'delivered' | 'failed';
+    attempts: number;
+    lastError: string | null;
+  } | null;
+  result: ProfileData | null;
+  error: { code: string; message: string; retryable: boolean } | null;
+}
+
+export interface Batch {
+  id: string;
+  createdAt: string;
+  entries: Array<{ input: string; vanityName: string; jobId: string }>;
+  rejected: Array<{ input: string; reason: string }>;
+  estimate: {
+    requestsNeeded: number;
+    hourlyRemaining: number;
+    estimatedCompletionAt: string;
+  };
 }
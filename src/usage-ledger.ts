@@ -0,0 +1,111 @@
+import fs from 'fs';
+import path from 'path';
+import { log } from './logger';
+import { RequestAttribution, UpstreamRequestKind, UsageRow } from './types';
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Counts upstream LinkedIn requests per hour, client, endpoint and kind, so
+ * the shared hourly budget can be attributed to whoever spent it. Hourly
+ * rows older than `retentionDays` are dropped; daily figures are sums of
+ * the hourly rows. Persisted to one JSON file after every change.
+ */
+export class UsageLedger {
+  private file: string;
+  private retentionDays: number;
+  private rows: UsageRow[] = [];
+
+  constructor(options?: { file?: string; retentionDays?: number }) {
+    this.file = options?.file || path.join(process.cwd(), '.usage.json');
+    this.retentionDays = options?.retentionDays ?? 35;
+    this.load();
+  }
+
+  record(attribution: RequestAttribution, kind: UpstreamRequestKind): void {
+    const period = startOfHour(Date.now());
+    const row = this.rows.find(
+      (r) =>
+        r.period === period &&
+        r.clientId === attribution.clientId &&
+        r.endpoint === attribution.endpoint &&
+        r.kind === kind
+    );
+
+    if (row) {
+      row.requests++;
+      // Keys can be renamed between requests; keep the latest name
+      row.clientName = attribution.clientName;
+    } else {
+      this.rows.push({ period, ...attribution, kind, requests: 1 });
+    }
+
+    this.prune();
+    this.save();
+  }
+
+  /** Hourly rows for the last `hours` hours (current hour included). */
+  hourly(hours: number, clientId?: string): UsageRow[] {
+    const since = startOfHour(Date.now() - (hours - 1) * HOUR_MS);
+    return this.select(since, clientId);
+  }
+
+  /** Hourly rows summed per UTC day, for the last `days` days. */
+  daily(days: number, clientId?: string): UsageRow[] {
+    const since = startOfDay(Date.now() - (days - 1) * DAY_MS);
+    const byDay = new Map<string, UsageRow>();
+
+    for (const row of this.select(since, clientId)) {
+      const period = startOfDay(Date.parse(row.period));
+      const key = [period, row.clientId, row.endpoint, row.kind].join('\n');
+      const day = byDay.get(key);
+      if (day) {
+        day.requests += row.requests;
+      } else {
+        byDay.set(key, { ...row, period });
+      }
+    }
+
+    return [...byDay.values()];
+  }
+
+  private select(since: string, clientId?: string): UsageRow[] {
+    return this.rows
+      .filter(
+        (row) =>
+          row.period >= since && (!clientId || row.clientId === clientId)
+      )
+      .map((row) => ({ ...row }));
+  }
+
+  private prune(): void {
+    const cutoff = startOfHour(Date.now() - this.retentionDays * DAY_MS);
+    this.rows = this.rows.filter((row) => row.period >= cutoff);
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.file)) return;
+    try {
+      this.rows = JSON.parse(fs.readFileSync(this.file, 'utf-8'));
+    } catch {
+      log.warn('Ignoring unreadable usage file', { file: this.file });
+    }
+  }
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+
+    // Write-then-rename so a crash never leaves a half-written ledger behind
+    fs.writeFileSync(`${this.file}.tmp`, JSON.stringify(this.rows));
+    fs.renameSync(`${this.file}.tmp`, this.file);
+  }
+}
+
+function startOfHour(ms: number): string {
+  return new Date(Math.floor(ms / HOUR_MS) * HOUR_MS).toISOString();
+}
+
+function startOfDay(ms: number): string {
+  return new Date(Math.floor(ms / DAY_MS) * DAY_MS).toISOString();
+}
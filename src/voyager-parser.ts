@@ -0,0 +1,457 @@
+import { parseCalendarDate, parseDateRange } from './date-parser';
+import {
+  LanguageProficiency,
+  ProfileData,
+  RecommendationDirection,
+  RecommendationItem,
+  SectionItem,
+  SectionItemMap,
+  SectionType,
+} from './types';
+
+/**
+ * Parsers for Voyager responses.
+ *
+ * Section responses are a flat `included[]` graph: a root PagedListComponent
+ * lists entityComponents, and grouped entries (several roles at one company)
+ * point to a nested PagedListComponent by URN. Everything here is pure so it
+ * can be replayed against recorded payloads (see fixtures/voyager).
+ */
+
+export function extractBasicInfo(response: any): ProfileData['basicInfo'] {
+  const data = response?.data || response;
+  return {
+    firstName: data.firstName || null,
+    lastName: data.lastName || null,
+    publicIdentifier: data.publicIdentifier || null,
+    headline: data.headline || null,
+    summary: data.summary || null,
+    location: data.geoLocationName || data.locationName || null,
+    profilePicture:
+      data.pictureUrls?.[0] ||
+      data.profilePictureDisplayImage?.rootUrl ||
+      null,
+    premium: data.premium || false,
+  };
+}
+
+/**
+ * `now` anchors "current" items and durations; fixtures pin it so their
+ * expected output does not drift with the calendar.
+ */
+export function extractComponentData<K extends SectionType>(
+  data: any,
+  sectionType: K,
+  now: Date = new Date()
+): SectionItemMap[K][] {
+  const included: any[] = data.included || [];
+  const results: SectionItemMap[K][] = [];
+
+  const { root: rootPagedList, byUrn: pagedListMap } = findPagedLists(included);
+  if (!rootPagedList) return [];
+
+  const elements = rootPagedList.components?.elements || [];
+
+  for (const element of elements) {
+    const entity = element.components?.entityComponent;
+    if (!entity) continue;
+
+    // Check for grouped entries (multiple roles at one company)
+    const referencedList = findReferencedPagedList(
+      entity,
+      pagedListMap
+    );
+    if (
+      referencedList &&
+      (sectionType === 'experience' ||
+        sectionType === 'volunteering-experiences')
+    ) {
+      const parentCompany: string | null =
+        resolveCompanyName(entity, included) ||
+        entity.titleV2?.text?.text ||
+        null;
+      const nestedElements = referencedList.components?.elements || [];
+
+      for (const nestedEl of nestedElements) {
+        const nestedEntity = nestedEl.components?.entityComponent;
+        if (!nestedEntity) continue;
+        const item = extractEntityData(
+          nestedEntity,
+          sectionType,
+          included,
+          now
+        );
+        if (item) {
+          applyParentOrganization(item, parentCompany);
+          results.push(item);
+        }
+      }
+    } else {
+      const item = extractEntityData(entity, sectionType, included, now);
+      if (item) results.push(item);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Recommendations come one tab per request (received, then given), and the
+ * entity itself does not say which tab it sits on, so the caller passes the
+ * direction it asked for. `extractComponentData` yields nothing for them.
+ */
+export function extractRecommendations(
+  data: any,
+  direction: RecommendationDirection
+): RecommendationItem[] {
+  const { root } = findPagedLists(data.included || []);
+  if (!root) return [];
+
+  const results: RecommendationItem[] = [];
+  for (const element of root.components?.elements || []) {
+    const entity = element.components?.entityComponent;
+    if (!entity) continue;
+
+    // Caption: "March 5, 2023, Jane managed Asha directly"
+    const caption: string | null = entity.caption?.text || null;
+    const split = caption?.match(/^(.*?\d{4}),\s*(.+)$/);
+
+    results.push({
+      direction,
+      name: entity.titleV2?.text?.text || null,
+      headline: entity.subtitle?.text || null,
+      relationship: split ? split[2].trim() : null,
+      date: split ? split[1].trim() : caption,
+      isoDate: parseCalendarDate(caption),
+      text: findDescription(entity),
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Paging window of a section response's root PagedListComponent.
+ * `total` is null when LinkedIn sent no paging metadata (single page).
+ * All counts are top-level entries, so a grouped company is one entry
+ * however many roles it expands to.
+ */
+export function extractPaging(data: any): {
+  start: number;
+  count: number;
+  total: number | null;
+  returned: number;
+} | null {
+  const { root } = findPagedLists(data?.included || []);
+  if (!root) return null;
+
+  const returned = (root.components?.elements || []).length;
+  const paging = root.components?.paging || root.paging;
+
+  return {
+    start: typeof paging?.start === 'number' ? paging.start : 0,
+    count: typeof paging?.count === 'number' ? paging.count : returned,
+    total: typeof paging?.total === 'number' ? paging.total : null,
+    returned,
+  };
+}
+
+function findPagedLists(included: any[]): {
+  root: any | null;
+  byUrn: Map<string, any>;
+} {
+  const byUrn = new Map<string, any>();
+  const allPagedLists: any[] = [];
+  for (const item of included) {
+    if (
+      item.$type ===
+      'com.linkedin.voyager.dash.identity.profile.tetris.PagedListComponent'
+    ) {
+      allPagedLists.push(item);
+      if (item.entityUrn) {
+        byUrn.set(item.entityUrn, item);
+      }
+    }
+  }
+
+  if (allPagedLists.length === 0) return { root: null, byUrn };
+
+  // Root PagedList: the one for fsd_profile, not fsd_profilePositionGroup
+  const root =
+    allPagedLists.find(
+      (pl: any) =>
+        pl.entityUrn?.includes('fsd_profile:') &&
+        !pl.entityUrn?.includes('fsd_profilePositionGroup')
+    ) || allPagedLists[allPagedLists.length - 1];
+
+  return { root, byUrn };
+}
+
+/**
+ * Nested roles under a grouped entry usually omit the organization (or
+ * repeat the role title in its place), so inherit it from the group.
+ */
+export function applyParentOrganization(
+  item: SectionItem,
+  parentCompany: string | null
+): void {
+  if ('company' in item) {
+    if (!item.company || item.company === item.title) {
+      item.company = parentCompany;
+    }
+  } else if ('role' in item) {
+    if (!item.organization || item.organization === item.role) {
+      item.organization = parentCompany;
+    }
+  }
+}
+
+export function findReferencedPagedList(
+  entity: any,
+  pagedListMap: Map<string, any>
+): any | null {
+  const subComponents = entity.subComponents?.components || [];
+  for (const sub of subComponents) {
+    const ref = sub.components?.['*pagedListComponent'];
+    if (ref && pagedListMap.has(ref)) {
+      return pagedListMap.get(ref);
+    }
+  }
+  return null;
+}
+
+export function resolveCompanyName(
+  entity: any,
+  included: any[]
+): string | null {
+  if (entity.image?.attributes) {
+    for (const attr of entity.image.attributes) {
+      const companyUrn = attr.detailData?.['*companyLogo'];
+      if (companyUrn) {
+        const co = included.find(
+          (item: any) => item.entityUrn === companyUrn
+        );
+        if (co?.name) return co.name;
+      }
+    }
+  }
+  return null;
+}
+
+export function parseDurationCaption(caption: string | null): {
+  startDate: string | null;
+  endDate: string | null;
+  duration: string | null;
+} {
+  if (!caption) {
+    return { startDate: null, endDate: null, duration: null };
+  }
+  // Format: "Nov 2025 - Present · 5 mos" or "Jan 2020 - Dec 2022 · 2 yrs 11 mos"
+  const [datePart, durationPart] = caption.split(' · ');
+  const duration = durationPart?.trim() || null;
+
+  if (datePart) {
+    const dashIndex = datePart.indexOf(' - ');
+    if (dashIndex !== -1) {
+      const startDate = datePart.slice(0, dashIndex).trim() || null;
+      const endDate = datePart.slice(dashIndex + 3).trim() || null;
+      return { startDate, endDate, duration };
+    }
+  }
+
+  return { startDate: caption, endDate: null, duration: null };
+}
+
+/** First text sub-component of an entity (its description or body). */
+function findDescription(entity: any): string | null {
+  const subComponents = entity.subComponents?.components || [];
+  for (const sub of subComponents) {
+    const textComp =
+      sub.components?.fixedListComponent?.components?.[0]?.components
+        ?.textComponent;
+    if (textComp?.text?.text) return textComp.text.text;
+  }
+  return null;
+}
+
+/**
+ * Split a "lead · detail" subtitle such as "Issued by Acme · Jun 2019" or
+ * "US 10,123,456 · Issued Mar 2021" into its two halves.
+ */
+export function splitSubtitle(subtitle: string | null): {
+  lead: string | null;
+  detail: string | null;
+} {
+  if (!subtitle) return { lead: null, detail: null };
+  const separator = subtitle.indexOf(' · ');
+  if (separator === -1) return { lead: subtitle.trim() || null, detail: null };
+  return {
+    lead: subtitle.slice(0, separator).trim() || null,
+    detail: subtitle.slice(separator + 3).trim() || null,
+  };
+}
+
+const LANGUAGE_PROFICIENCIES: [RegExp, LanguageProficiency][] = [
+  [/^native or bilingual/i, 'native-or-bilingual'],
+  [/^full professional/i, 'full-professional'],
+  [/^professional working/i, 'professional-working'],
+  [/^limited working/i, 'limited-working'],
+  [/^elementary/i, 'elementary'],
+];
+
+/** Proficiency level from the English caption; null for other locales. */
+export function parseLanguageProficiency(
+  caption: string | null
+): LanguageProficiency | null {
+  if (!caption) return null;
+  const match = LANGUAGE_PROFICIENCIES.find(([pattern]) =>
+    pattern.test(caption.trim())
+  );
+  return match ? match[1] : null;
+}
+
+export function extractEntityData<K extends SectionType>(
+  entity: any,
+  sectionType: K,
+  included: any[],
+  now?: Date
+): SectionItemMap[K] | null;
+export function extractEntityData(
+  entity: any,
+  sectionType: SectionType,
+  included: any[],
+  now: Date = new Date()
+): SectionItem | null {
+  const title: string | null = entity.titleV2?.text?.text || null;
+  const subtitle: string | null = entity.subtitle?.text || null;
+  const caption: string | null = entity.caption?.text || null;
+  const metadata: string | null = entity.metadata?.text || null;
+
+  const description = findDescription(entity);
+
+  const company = resolveCompanyName(entity, included);
+
+  switch (sectionType) {
+    case 'experience': {
+      const { startDate, endDate, duration } = parseDurationCaption(caption);
+      return {
+        title,
+        company: company || subtitle,
+        startDate,
+        endDate,
+        duration,
+        ...parseDateRange(caption, now),
+        location: metadata,
+        description,
+      };
+    }
+    case 'education':
+      return {
+        schoolName: title,
+        degree: subtitle,
+        dates: caption,
+        ...parseDateRange(caption, now),
+        additionalInfo: description,
+      };
+    case 'skills':
+      return {
+        name: title,
+        endorsements: caption,
+      };
+    case 'projects':
+      return {
+        title,
+        description: description || subtitle,
+        date: caption,
+        ...parseDateRange(caption, now),
+      };
+    case 'certifications':
+      return {
+        name: title,
+        organization: subtitle,
+        issueDate: caption,
+        ...parseDateRange(caption, now),
+      };
+    case 'volunteering-experiences': {
+      const { startDate, endDate, duration } = parseDurationCaption(caption);
+      return {
+        role: title,
+        organization: company || subtitle,
+        startDate,
+        endDate,
+        duration,
+        ...parseDateRange(caption, now),
+        cause: metadata,
+        description,
+      };
+    }
+    case 'languages':
+      return {
+        name: title,
+        proficiency: caption,
+        proficiencyLevel: parseLanguageProficiency(caption),
+      };
+    case 'honors': {
+      const { lead, detail } = splitSubtitle(subtitle);
+      const issueDate = detail || caption;
+      return {
+        title,
+        issuer: lead?.replace(/^Issued by\s+/i, '') || null,
+        issueDate,
+        ...parseDateRange(issueDate, now),
+        description,
+      };
+    }
+    case 'publications': {
+      const { lead, detail } = splitSubtitle(subtitle);
+      const publishedDate = detail || caption;
+      return {
+        title,
+        publisher: lead,
+        publishedDate,
+        ...parseDateRange(publishedDate, now),
+        description,
+      };
+    }
+    case 'courses':
+      return {
+        name: title,
+        number: subtitle,
+      };
+    case 'patents': {
+      const { lead, detail } = splitSubtitle(subtitle);
+      const status = detail || caption;
+      return {
+        title,
+        number: lead,
+        status,
+        ...parseDateRange(status, now),
+        description,
+      };
+    }
+    case 'test-scores': {
+      const { lead, detail } = splitSubtitle(subtitle);
+      const date = caption || detail;
+      return {
+        name: title,
+        score: lead?.replace(/^Score:\s*/i, '') || null,
+        date,
+        ...parseDateRange(date, now),
+        description,
+      };
+    }
+    case 'organizations': {
+      const { lead, detail } = splitSubtitle(subtitle);
+      const dates = caption || detail;
+      return {
+        name: title,
+        position: lead,
+        dates,
+        ...parseDateRange(dates, now),
+        description,
+      };
+    }
+    default:
+      return null;
+  }
+}